@@ -0,0 +1,195 @@
+import { APIError, APIConnectionError, APIConnectionTimeoutError } from 'openai'
+import type { AiProvider } from '../src/services/providers'
+import type { AiErrorKind, AiFailure } from '../src/services/ai'
+
+/**
+ * Sorting provider errors into kinds the renderer can explain, and retrying the ones
+ * that may pass on a second try: server hiccups (transient) and rate limits.
+ */
+
+const MAX_ATTEMPTS = 5
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30_000
+// A provider asking for a longer pause than this gets reported rather than waited out
+const MAX_RETRY_AFTER_MS = 60_000
+
+// Connection failures that usually clear up on their own, unlike a refused connection or unknown host
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET']
+
+/**
+ * A non-2xx reply from a provider called without the OpenAI SDK
+ */
+export class ProviderHttpError extends Error {
+  constructor(public status: number, public headers: Headers | null, public body: string) {
+    super(`Request failed (${status}): ${body}`)
+    this.name = 'ProviderHttpError'
+  }
+}
+
+// The provider answered, but declined to produce the text
+export class ContentFilteredError extends Error {
+  constructor() {
+    super('The reply was withheld by a content filter')
+    this.name = 'ContentFilteredError'
+  }
+}
+
+/**
+ * A failure already sorted and described for the renderer
+ */
+export class AiFailureError extends Error {
+  constructor(public failure: AiFailure) {
+    super(failure.message)
+    this.name = 'AiFailureError'
+  }
+}
+
+interface Classified {
+  kind: AiErrorKind
+  status?: number
+  detail: string
+  retryAfterMs?: number
+}
+
+// Retry-After is seconds or an HTTP date; OpenAI also sends retry-after-ms
+function retryAfter(headers: Headers | null | undefined): number | undefined {
+  const ms = Number(headers?.get('retry-after-ms'))
+  if (ms > 0) return ms
+  const value = headers?.get('retry-after')
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+function classifyHttp(status: number, headers: Headers | null | undefined, detail: string): Classified {
+  const text = detail.toLowerCase()
+  if (status === 413 || /context.length|context window|maximum context|too many tokens|prompt is too long|reduce the length/.test(text)) {
+    return { kind: 'context-length', status, detail }
+  }
+  if (/content.filter|content.policy|content management|moderation|flagged|safety system/.test(text)) {
+    return { kind: 'content-filter', status, detail }
+  }
+  if (status === 402 || ((status === 403 || status === 429) && /quota|credit|billing/.test(text))) {
+    return { kind: 'quota', status, detail }
+  }
+  if (status === 401 || status === 403) return { kind: 'auth', status, detail }
+  if (status === 429) return { kind: 'rate-limit', status, detail, retryAfterMs: retryAfter(headers) }
+  // 529 is Anthropic's "overloaded"
+  if (status === 408 || status === 409 || status >= 500) {
+    return { kind: 'transient', status, detail, retryAfterMs: retryAfter(headers) }
+  }
+  return { kind: 'unknown', status, detail }
+}
+
+// Node puts the socket error's code on the error, or on its cause when it went through fetch
+function networkCode(error: unknown): string | undefined {
+  const failed = error as { code?: string; cause?: { code?: string } } | undefined
+  return failed?.cause?.code || failed?.code
+}
+
+function classify(error: unknown): Classified {
+  const detail = error instanceof Error ? error.message : String(error)
+  if (error instanceof ContentFilteredError) return { kind: 'content-filter', detail }
+  if (error instanceof ProviderHttpError) return classifyHttp(error.status, error.headers, error.body)
+  if (error instanceof APIConnectionTimeoutError) return { kind: 'transient', detail }
+  if (error instanceof APIConnectionError || (error instanceof TypeError && detail === 'fetch failed')) {
+    return { kind: TRANSIENT_NETWORK_CODES.includes(networkCode(error) || '') ? 'transient' : 'network', detail }
+  }
+  if (error instanceof APIError && error.status !== undefined) {
+    return classifyHttp(error.status, error.headers, `${detail} ${JSON.stringify(error.error ?? '')}`)
+  }
+  // e.g. an error OpenRouter reports partway through a stream
+  if (error instanceof APIError) return classifyHttp(0, null, detail)
+  return { kind: 'unknown', detail }
+}
+
+function describe(provider: AiProvider, classified: Classified, attempts: number): string {
+  const { kind, status, detail } = classified
+  const name = provider.name
+  const tries = attempts > 1 ? ` after ${attempts} attempts` : ''
+  switch (kind) {
+    case 'auth':
+      return `${name} rejected the API key (${status}). Check or replace the key under AI Providers in Settings.`
+    case 'quota':
+      return `${name} says the account is out of credits or over its quota. Add credits or raise the limit with ${name}, or switch provider in Settings.`
+    case 'rate-limit':
+      return classified.retryAfterMs !== undefined && classified.retryAfterMs > MAX_RETRY_AFTER_MS
+        ? `${name} is rate-limiting requests and asked to wait ${Math.ceil(classified.retryAfterMs / 1000)} seconds. Try again then, or switch to another model.`
+        : `${name} is still rate-limiting requests${tries}. Wait a minute and try again, or switch to another model.`
+    case 'context-length':
+      return `The prompt is too long for the selected model. Pick a model with a larger context window, or include less context (fewer notes, shorter summaries).`
+    case 'content-filter':
+      return `${name}'s content filter blocked this request. Rephrase the passage or instruction, or try another model.`
+    case 'transient':
+      return `${name} had a temporary problem${status ? ` (${status})` : ''} and was still failing${tries}. Try again in a few minutes.`
+    case 'network':
+      return `Couldn't reach ${name} at ${provider.baseUrl}. Check your internet connection, or that the local server is running.`
+    default:
+      return `${name} request failed: ${detail}`
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Exponential backoff with jitter, so parallel callers don't retry in lockstep
+function backoff(attempt: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1))
+  return delay / 2 + Math.random() * delay / 2
+}
+
+/**
+ * Runs `request`, retrying transient failures and rate limits with backoff (or as long as
+ * the provider's Retry-After asks). Throws an AiFailureError once it gives up, or the
+ * abort reason when `signal` aborts. `canRetry` lets a stream refuse once text is out.
+ */
+export async function withRetries<T>(
+  provider: AiProvider,
+  request: (attempt: number) => Promise<T>,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request(attempt)
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason
+      if (error instanceof AiFailureError) throw error
+      const classified = classify(error)
+      const retryable = classified.kind === 'transient' || classified.kind === 'rate-limit'
+      const wait = classified.retryAfterMs ?? backoff(attempt)
+      if (!retryable || attempt >= MAX_ATTEMPTS || wait > MAX_RETRY_AFTER_MS || !canRetry()) {
+        throw new AiFailureError({
+          kind: classified.kind,
+          status: classified.status,
+          message: describe(provider, classified, attempt)
+        })
+      }
+      console.warn(`${provider.name} ${classified.kind} failure (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${Math.round(wait)}ms:`, classified.detail)
+      await sleep(wait, signal)
+    }
+  }
+}
+
+/**
+ * What to tell the renderer about a request that failed outside withRetries too,
+ * e.g. a provider that no longer exists
+ */
+export function toFailure(error: unknown): AiFailure {
+  if (error instanceof AiFailureError) return error.failure
+  return { kind: 'unknown', message: error instanceof Error ? error.message : String(error) }
+}
@@ -0,0 +1,415 @@
+import OpenAI from 'openai'
+import type { ChatCompletionCreateParamsBase, ChatCompletionCreateParamsNonStreaming, ChatCompletionCreateParamsStreaming } from 'openai/resources/chat/completions'
+import { countTokens as countO200k } from 'gpt-tokenizer/encoding/o200k_base'
+import { countTokens as countCl100k } from 'gpt-tokenizer/encoding/cl100k_base'
+import { handle } from './ipc'
+import { getSecret } from './secrets'
+import { getProvider } from './providers'
+import { withRetries, toFailure, AiFailureError, ProviderHttpError, ContentFilteredError } from './ai-errors'
+import { providerNeedsKey, type AiProvider } from '../src/services/providers'
+import type { AiChatMessage, AiUsage, AiGenerationParams, ReasoningEffort } from '../src/services/ai'
+import type { ModelPricing } from '../src/services/tokens'
+
+/**
+ * Chat requests to the configured providers, made here so API keys never reach the
+ * renderer. Prompt building, language retries and logging stay in src/services/ai.ts.
+ */
+
+interface ChatAdapter {
+  complete(provider: AiProvider, apiKey: string, model: string, messages: AiChatMessage[], params: AiGenerationParams, signal: AbortSignal): Promise<{ content: string; usage: AiUsage | null }>
+  // Calls onText with each piece of text as it arrives; resolves with the usage once the reply is complete
+  stream(provider: AiProvider, apiKey: string, model: string, messages: AiChatMessage[], params: AiGenerationParams, signal: AbortSignal, onText: (text: string) => void): Promise<AiUsage | null>
+  listModels(provider: AiProvider, apiKey: string): Promise<string[]>
+  // The prompt tokens `text` comes to with the provider's own tokenizer; null when it has none
+  countTokens(provider: AiProvider, apiKey: string, model: string, text: string): Promise<number | null>
+  pricing(provider: AiProvider, apiKey: string): Promise<Record<string, ModelPricing>>
+}
+
+// Anthropic requires an output limit; this leaves room for a full chapter
+const ANTHROPIC_MAX_TOKENS = 8192
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Anthropic sets thinking as a token budget rather than an effort level
+const ANTHROPIC_THINKING_BUDGETS: Record<ReasoningEffort, number> = { low: 2048, medium: 8192, high: 24576 }
+
+// Requests still running, by the renderer's request ID, so 'ai-cancel' can stop them
+const activeRequests = new Map<string, AbortController>()
+
+// Local servers found not to have a /tokenize endpoint (e.g. Ollama), by base URL, so they aren't asked again
+const noTokenizer = new Set<string>()
+
+/**
+ * The BPE encoding of an OpenAI model, named bare (OpenAI) or as openai/<model> (OpenRouter),
+ * so it can be counted locally. Null for other models.
+ */
+function openAiEncoding(model: string): ((text: string) => number) | null {
+  const name = model.replace(/^openai\//, '')
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt-4o|o\d)/.test(name)) return countO200k
+  if (/^(gpt-4|gpt-3\.5)/.test(name)) return countCl100k
+  return null
+}
+
+function toUsage(reported: unknown): AiUsage | null {
+  return reported && typeof reported === 'object' ? reported as AiUsage : null
+}
+
+// ============================================
+// OpenAI-style APIs: OpenRouter, OpenAI and local servers
+// ============================================
+
+function openAiClient(provider: AiProvider, apiKey: string) {
+  return new OpenAI({
+    baseURL: provider.baseUrl,
+    // The SDK insists on a key; local servers ignore whatever is sent
+    apiKey: apiKey || 'not-needed',
+    defaultHeaders: provider.headers,
+    // withRetries does the retrying, the same way for every provider
+    maxRetries: 0
+  })
+}
+
+/**
+ * Fields OpenRouter adds to the chat completions request, which the OpenAI SDK doesn't declare
+ */
+interface OpenRouterParams {
+  usage?: { include: boolean }
+  reasoning?: { effort: ReasoningEffort }
+}
+
+// The optional part of a request, spread in after the model, messages and stream flag
+type RequestOptions = Partial<Omit<ChatCompletionCreateParamsBase, 'model' | 'messages' | 'stream'>> & OpenRouterParams
+
+// OpenRouter only reports a call's cost when asked.
+// OpenAI and OpenRouter report streamed usage on request; local servers may not know the option.
+function usageOptions(provider: AiProvider, streamed: boolean): RequestOptions {
+  return {
+    ...(provider.kind === 'openrouter' ? { usage: { include: true } } : {}),
+    ...(streamed && provider.kind !== 'openai-compatible' ? { stream_options: { include_usage: true } } : {})
+  }
+}
+
+// Only the parameters that were set are sent, so the rest keep the model's defaults. OpenAI's newer
+// models only take max_completion_tokens; OpenRouter takes reasoning effort as an object.
+function samplingOptions(provider: AiProvider, params: AiGenerationParams): RequestOptions {
+  return {
+    ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+    ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+    ...(params.maxTokens !== undefined
+      ? provider.kind === 'openai' ? { max_completion_tokens: params.maxTokens } : { max_tokens: params.maxTokens }
+      : {}),
+    ...(params.reasoningEffort
+      ? provider.kind === 'openrouter' ? { reasoning: { effort: params.reasoningEffort } } : { reasoning_effort: params.reasoningEffort }
+      : {})
+  }
+}
+
+const openAiAdapter: ChatAdapter = {
+  async complete(provider, apiKey, model, messages, params, signal) {
+    const request: ChatCompletionCreateParamsNonStreaming & OpenRouterParams = {
+      model,
+      messages,
+      ...samplingOptions(provider, params),
+      ...usageOptions(provider, false)
+    }
+    const response = await openAiClient(provider, apiKey).chat.completions.create(request, { signal })
+    const choice = response.choices[0]
+    if (!choice?.message?.content && choice?.finish_reason === 'content_filter') throw new ContentFilteredError()
+    return {
+      content: choice?.message?.content || '',
+      usage: toUsage(response.usage)
+    }
+  },
+
+  async stream(provider, apiKey, model, messages, params, signal, onText) {
+    const request: ChatCompletionCreateParamsStreaming & OpenRouterParams = {
+      model,
+      messages,
+      stream: true,
+      ...samplingOptions(provider, params),
+      ...usageOptions(provider, true)
+    }
+    const stream = await openAiClient(provider, apiKey).chat.completions.create(request, { signal })
+    let usage: AiUsage | null = null
+    for await (const chunk of stream) {
+      // Usage arrives on the last chunk, which carries no content
+      if (chunk.usage) usage = toUsage(chunk.usage)
+      const content = chunk.choices[0]?.delta?.content || ''
+      if (content) onText(content)
+    }
+    return usage
+  },
+
+  async listModels(provider, apiKey) {
+    const models: string[] = []
+    for await (const model of openAiClient(provider, apiKey).models.list()) models.push(model.id)
+    return models
+  },
+
+  // OpenAI and OpenRouter have no counting endpoint, so OpenAI's models are counted with
+  // their BPE encoding here; llama.cpp serves /tokenize next to /v1
+  async countTokens(provider, _apiKey, model, text) {
+    if (provider.kind !== 'openai-compatible') {
+      const encoding = provider.kind === 'openai' || model.startsWith('openai/') ? openAiEncoding(model) : null
+      return encoding ? encoding(text) : null
+    }
+    if (noTokenizer.has(provider.baseUrl)) return null
+    const response = await fetch(`${provider.baseUrl.replace(/\/v1$/, '')}/tokenize`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...provider.headers },
+      body: JSON.stringify({ content: text })
+    })
+    // Only a missing route means there's no tokenizer; anything else may pass next time
+    if (response.status === 404 || response.status === 405) {
+      noTokenizer.add(provider.baseUrl)
+      return null
+    }
+    const data = response.ok ? await response.json().catch(() => null) as { tokens?: unknown[] } | null : null
+    return Array.isArray(data?.tokens) ? data.tokens.length : null
+  },
+
+  // OpenRouter lists each model's price per token, as strings, alongside the model
+  async pricing(provider, apiKey) {
+    if (provider.kind !== 'openrouter') return {}
+    const prices: Record<string, ModelPricing> = {}
+    for await (const model of openAiClient(provider, apiKey).models.list()) {
+      const pricing = (model as { pricing?: { prompt?: string; completion?: string } }).pricing
+      const prompt = Number(pricing?.prompt)
+      const completion = Number(pricing?.completion)
+      // Negative prices mark models routed at runtime, e.g. openrouter/auto
+      if (prompt >= 0 && completion >= 0) prices[model.id] = { prompt, completion }
+    }
+    return prices
+  }
+}
+
+// ============================================
+// Anthropic Messages API
+// ============================================
+
+function anthropicHeaders(provider: AiProvider, apiKey: string) {
+  return {
+    'content-type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    ...provider.headers
+  }
+}
+
+// The system prompt is a top-level field rather than a message. Thinking counts toward
+// max_tokens, so its budget is added on top; with thinking on, sampling can't be changed.
+// Newer models take temperature or top_p but not both, so temperature wins.
+function anthropicBody(model: string, messages: AiChatMessage[], params: AiGenerationParams, stream: boolean) {
+  const thinking = params.reasoningEffort ? ANTHROPIC_THINKING_BUDGETS[params.reasoningEffort] : 0
+  const sampling = params.temperature !== undefined
+    ? { temperature: params.temperature }
+    : params.topP !== undefined ? { top_p: params.topP } : {}
+  return JSON.stringify({
+    model,
+    max_tokens: (params.maxTokens ?? ANTHROPIC_MAX_TOKENS) + thinking,
+    system: messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+    messages: messages.filter(m => m.role !== 'system'),
+    ...(thinking ? { thinking: { type: 'enabled', budget_tokens: thinking } } : sampling),
+    stream
+  })
+}
+
+async function anthropicFetch(provider: AiProvider, apiKey: string, path: string, init: RequestInit = {}) {
+  const response = await fetch(`${provider.baseUrl}${path}`, { ...init, headers: anthropicHeaders(provider, apiKey) })
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new ProviderHttpError(response.status, response.headers, detail || response.statusText)
+  }
+  return response
+}
+
+function fromAnthropicUsage(input: number | undefined, output: number | undefined): AiUsage {
+  return {
+    prompt_tokens: input,
+    completion_tokens: output,
+    total_tokens: input !== undefined && output !== undefined ? input + output : undefined
+  }
+}
+
+const anthropicAdapter: ChatAdapter = {
+  async complete(provider, apiKey, model, messages, params, signal) {
+    const response = await anthropicFetch(provider, apiKey, '/messages', {
+      method: 'POST',
+      body: anthropicBody(model, messages, params, false),
+      signal
+    })
+    const data = await response.json() as {
+      content?: Array<{ type: string; text?: string }>
+      stop_reason?: string
+      usage?: { input_tokens?: number; output_tokens?: number }
+    }
+    if (!data.content?.length && data.stop_reason === 'refusal') throw new ContentFilteredError()
+    return {
+      content: (data.content || []).filter(block => block.type === 'text').map(block => block.text || '').join(''),
+      usage: data.usage ? fromAnthropicUsage(data.usage.input_tokens, data.usage.output_tokens) : null
+    }
+  },
+
+  // Server-sent events: text comes in content_block_delta events (thinking deltas are skipped),
+  // token counts in message_start (input) and message_delta (output)
+  async stream(provider, apiKey, model, messages, params, signal, onText) {
+    const response = await anthropicFetch(provider, apiKey, '/messages', {
+      method: 'POST',
+      body: anthropicBody(model, messages, params, true),
+      signal
+    })
+    if (!response.body) throw new Error('Anthropic returned an empty stream')
+
+    let inputTokens: number | undefined
+    let outputTokens: number | undefined
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue
+        const event = JSON.parse(line.slice(5))
+        if (event.type === 'message_start') inputTokens = event.message?.usage?.input_tokens
+        else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') onText(event.delta.text)
+        else if (event.type === 'message_delta') outputTokens = event.usage?.output_tokens
+        // Errors after the reply has started come as events; 529 is what "overloaded" gets as a status
+        else if (event.type === 'error') throw new ProviderHttpError(event.error?.type === 'overloaded_error' ? 529 : 500, null, event.error?.message || 'unknown error')
+      }
+    }
+    return fromAnthropicUsage(inputTokens, outputTokens)
+  },
+
+  async listModels(provider, apiKey) {
+    const response = await anthropicFetch(provider, apiKey, '/models?limit=1000')
+    const data = await response.json() as { data?: Array<{ id: string }> }
+    return (data.data || []).map(model => model.id)
+  },
+
+  async countTokens(provider, apiKey, model, text) {
+    const response = await anthropicFetch(provider, apiKey, '/messages/count_tokens', {
+      method: 'POST',
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: text }] })
+    })
+    const data = await response.json() as { input_tokens?: number }
+    return data.input_tokens ?? null
+  },
+
+  // Anthropic doesn't publish prices through the API
+  async pricing() {
+    return {}
+  }
+}
+
+function adapterFor(provider: AiProvider): ChatAdapter {
+  return provider.kind === 'anthropic' ? anthropicAdapter : openAiAdapter
+}
+
+async function resolveProvider(providerId: string): Promise<{ provider: AiProvider; apiKey: string }> {
+  const provider = await getProvider(providerId)
+  const apiKey = await getSecret(provider.id) || ''
+  if (!apiKey && providerNeedsKey(provider)) {
+    throw new AiFailureError({ kind: 'auth', message: `${provider.name} API Key is missing. Add it under AI Providers in Settings.` })
+  }
+  return { provider, apiKey }
+}
+
+// Runs a request that 'ai-cancel' can stop until it settles. The request is registered
+// before anything is awaited, so a cancel sent straight after it still finds it.
+async function cancellable<T>(requestId: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController()
+  activeRequests.set(requestId, controller)
+  try {
+    return await run(controller.signal)
+  } finally {
+    activeRequests.delete(requestId)
+  }
+}
+
+export function setupAiHandlers() {
+  // ============================================
+  // AI Handlers
+  // ============================================
+
+  handle('ai-complete', async (_, { requestId, providerId, model, messages, params = {} }) => {
+    let retries = 0
+    try {
+      const result = await cancellable(requestId, async signal => {
+        const { provider, apiKey } = await resolveProvider(providerId)
+        return withRetries(provider, attempt => {
+          retries = attempt - 1
+          return adapterFor(provider).complete(provider, apiKey, model, messages, params, signal)
+        }, signal)
+      })
+      return { ...result, retries }
+    } catch (error) {
+      console.error('AI Completion Error:', error)
+      return { failure: toFailure(error), retries }
+    }
+  })
+
+  // Text is pushed to the calling window as 'ai-stream-chunk' events tagged with the
+  // request's ID; the invoke settles once the stream has ended. A stream is only retried
+  // while nothing has been sent, so the renderer never sees text twice.
+  handle('ai-stream', async (event, { requestId, providerId, model, messages, params = {} }) => {
+    let retries = 0
+    try {
+      let sent = false
+      const usage = await cancellable(requestId, async signal => {
+        const { provider, apiKey } = await resolveProvider(providerId)
+        return withRetries(provider, attempt => {
+          retries = attempt - 1
+          return adapterFor(provider).stream(provider, apiKey, model, messages, params, signal, content => {
+            sent = true
+            if (!event.sender.isDestroyed()) event.sender.send('ai-stream-chunk', { requestId, content })
+          })
+        }, signal, () => !sent)
+      })
+      return { usage, retries }
+    } catch (error) {
+      console.error('AI Stream Error:', error)
+      return { failure: toFailure(error), retries }
+    }
+  })
+
+  // The renderer stopped waiting for this request; aborting it stops the provider generating (and billing) the rest
+  handle('ai-cancel', async (_, requestId) => {
+    activeRequests.get(requestId)?.abort()
+    return { success: true }
+  })
+
+  // Asks the provider which models it serves, e.g. the models pulled into a local Ollama
+  handle('ai-list-models', async (_, providerId) => {
+    try {
+      const { provider, apiKey } = await resolveProvider(providerId)
+      return (await withRetries(provider, () => adapterFor(provider).listModels(provider, apiKey))).sort()
+    } catch (error) {
+      console.error('List Models Error:', error)
+      throw new Error(toFailure(error).message)
+    }
+  })
+
+  // Counting is only for estimates, so any failure means "no tokenizer" and the renderer estimates instead
+  handle('ai-count-tokens', async (_, { providerId, model, text }) => {
+    try {
+      const { provider, apiKey } = await resolveProvider(providerId)
+      return await adapterFor(provider).countTokens(provider, apiKey, model, text)
+    } catch (error) {
+      console.warn('Count Tokens Error:', error)
+      return null
+    }
+  })
+
+  handle('ai-model-pricing', async (_, providerId) => {
+    try {
+      const { provider, apiKey } = await resolveProvider(providerId)
+      return await withRetries(provider, () => adapterFor(provider).pricing(provider, apiKey))
+    } catch (error) {
+      console.error('Model Pricing Error:', error)
+      throw new Error(toFailure(error).message)
+    }
+  })
+}
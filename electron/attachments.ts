@@ -0,0 +1,74 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+
+/**
+ * Note attachments live as plain file copies under userData/attachments/<project id>/,
+ * so they survive the original being moved or deleted. The database only records
+ * which note each copy belongs to; these helpers own the files themselves.
+ */
+
+// IDs that can be used as a single path segment: UUIDs and the legacy 'default-project'
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+export function isSafeId(id: string) {
+  return SAFE_ID_PATTERN.test(id)
+}
+
+// Throws rather than return a path outside userData/attachments, since purges delete recursively
+function getAttachmentsDir(projectId: string) {
+  const root = path.join(app.getPath('userData'), 'attachments')
+  const dir = path.resolve(root, projectId)
+  if (!isSafeId(projectId) || path.dirname(dir) !== root) {
+    throw new Error(`Invalid project ID for attachments: ${projectId}`)
+  }
+  return dir
+}
+
+export function getAttachmentPath(projectId: string, storedName: string) {
+  const dir = getAttachmentsDir(projectId)
+  const file = path.resolve(dir, storedName)
+  if (path.dirname(file) !== dir) throw new Error(`Invalid attachment file name: ${storedName}`)
+  return file
+}
+
+// Prefixed with the attachment ID so two files with the same name can't collide
+function toStoredName(attachmentId: string, fileName: string) {
+  const safeName = fileName.replace(/[\\/:*?"<>|]+/g, '').trim() || 'file'
+  return `${attachmentId}-${safeName}`
+}
+
+/**
+ * Copies a file into the project's attachments folder. Returns the stored name and size.
+ */
+export async function storeAttachment(projectId: string, attachmentId: string, sourcePath: string) {
+  const storedName = toStoredName(attachmentId, path.basename(sourcePath))
+  await fs.mkdir(getAttachmentsDir(projectId), { recursive: true })
+  await fs.copyFile(sourcePath, getAttachmentPath(projectId, storedName))
+  const stat = await fs.stat(getAttachmentPath(projectId, storedName))
+  return { storedName, sizeBytes: stat.size }
+}
+
+/**
+ * Copies an attachment of one project into another, e.g. when forking. Returns the new stored name.
+ */
+export async function copyAttachment(fromProjectId: string, storedName: string, toProjectId: string, attachmentId: string, fileName: string) {
+  const newStoredName = toStoredName(attachmentId, fileName)
+  await fs.mkdir(getAttachmentsDir(toProjectId), { recursive: true })
+  await fs.copyFile(getAttachmentPath(fromProjectId, storedName), getAttachmentPath(toProjectId, newStoredName))
+  return newStoredName
+}
+
+/**
+ * Deletes attachment copies. Missing files are ignored: the row is what the app
+ * shows, and a file the user already removed by hand shouldn't block a purge.
+ */
+export async function removeAttachments(files: { projectId: string; storedName: string }[]) {
+  for (const file of files) {
+    await fs.rm(getAttachmentPath(file.projectId, file.storedName), { force: true })
+  }
+}
+
+export async function removeProjectAttachments(projectId: string) {
+  await fs.rm(getAttachmentsDir(projectId), { recursive: true, force: true })
+}
@@ -0,0 +1,272 @@
+import type { Client } from '@libsql/client'
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import { handle } from './ipc'
+
+export type BackupReason = 'launch' | 'interval' | 'manual' | 'pre-migration' | 'pre-restore'
+
+export interface BackupSettings {
+  intervalMinutes: number
+  keepHourly: number
+  keepDaily: number
+}
+
+export interface BackupInfo {
+  fileName: string
+  reason: BackupReason
+  createdAt: string
+  sizeBytes: number
+}
+
+const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  intervalMinutes: 15,
+  keepHourly: 24,
+  keepDaily: 14
+}
+
+// Copies taken right before something risky sit outside the hourly/daily rotation,
+// otherwise a launch backup in the same hour would prune the pre-migration one
+const SAFETY_REASONS: BackupReason[] = ['pre-migration', 'pre-restore']
+const MAX_SAFETY_BACKUPS = 5
+
+const BACKUP_FILE_PATTERN = /^backup-(\d+)-([a-z-]+)\.db$/
+
+let client: Client
+let dbPath: string
+let settings: BackupSettings = { ...DEFAULT_BACKUP_SETTINGS }
+let scheduleTimer: ReturnType<typeof setInterval> | null = null
+let lastBackupAt = 0
+let backupInFlight: Promise<BackupInfo> | null = null
+
+function getBackupsDir() {
+  return path.join(app.getPath('userData'), 'backups')
+}
+
+function getSettingsPath() {
+  return path.join(app.getPath('userData'), 'backup-settings.json')
+}
+
+async function loadSettings(): Promise<BackupSettings> {
+  try {
+    const raw = JSON.parse(await fs.readFile(getSettingsPath(), 'utf-8'))
+    return normalizeSettings(raw)
+  } catch {
+    return { ...DEFAULT_BACKUP_SETTINGS }
+  }
+}
+
+function normalizeSettings(raw: Partial<BackupSettings>): BackupSettings {
+  const positiveInt = (value: unknown, fallback: number) => {
+    const n = Math.floor(Number(value))
+    return Number.isFinite(n) && n >= 1 ? n : fallback
+  }
+  return {
+    intervalMinutes: positiveInt(raw.intervalMinutes, DEFAULT_BACKUP_SETTINGS.intervalMinutes),
+    keepHourly: positiveInt(raw.keepHourly, DEFAULT_BACKUP_SETTINGS.keepHourly),
+    keepDaily: positiveInt(raw.keepDaily, DEFAULT_BACKUP_SETTINGS.keepDaily)
+  }
+}
+
+// The libsql client swaps connections around transactions, so SQLite's own change
+// counters reset; the file's modification time is the reliable "has anything changed" signal
+async function getLastWriteTime(): Promise<number> {
+  let latest = 0
+  for (const file of [dbPath, `${dbPath}-wal`]) {
+    const stat = await fs.stat(file).catch(() => null)
+    if (stat) latest = Math.max(latest, stat.mtimeMs)
+  }
+  return latest
+}
+
+export async function listBackups(): Promise<BackupInfo[]> {
+  let entries: string[]
+  try {
+    entries = await fs.readdir(getBackupsDir())
+  } catch {
+    return []
+  }
+  const backups: BackupInfo[] = []
+  for (const fileName of entries) {
+    const match = BACKUP_FILE_PATTERN.exec(fileName)
+    if (!match) continue
+    const stat = await fs.stat(path.join(getBackupsDir(), fileName))
+    backups.push({
+      fileName,
+      reason: match[2] as BackupReason,
+      createdAt: new Date(Number(match[1])).toISOString(),
+      sizeBytes: stat.size
+    })
+  }
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Keeps the newest backup in each of the most recent `keepHourly` hours and
+ * `keepDaily` days; everything else in the rotation is deleted.
+ */
+async function applyRetention() {
+  const backups = await listBackups()
+  const keep = new Set<string>()
+  const hours = new Set<string>()
+  const days = new Set<string>()
+  let safetyKept = 0
+
+  for (const backup of backups) {
+    if (SAFETY_REASONS.includes(backup.reason)) {
+      if (safetyKept++ < MAX_SAFETY_BACKUPS) keep.add(backup.fileName)
+      continue
+    }
+    const hourKey = backup.createdAt.slice(0, 13)
+    const dayKey = backup.createdAt.slice(0, 10)
+    if (!hours.has(hourKey) && hours.size < settings.keepHourly) {
+      hours.add(hourKey)
+      keep.add(backup.fileName)
+    }
+    if (!days.has(dayKey) && days.size < settings.keepDaily) {
+      days.add(dayKey)
+      keep.add(backup.fileName)
+    }
+  }
+
+  for (const backup of backups) {
+    if (keep.has(backup.fileName)) continue
+    await fs.rm(path.join(getBackupsDir(), backup.fileName), { force: true })
+  }
+}
+
+async function writeBackup(reason: BackupReason): Promise<BackupInfo> {
+  await fs.mkdir(getBackupsDir(), { recursive: true })
+  const createdAt = Date.now()
+  const fileName = `backup-${createdAt}-${reason}.db`
+  const target = path.join(getBackupsDir(), fileName)
+
+  // VACUUM INTO writes a consistent, compacted copy without closing the live connection
+  await client.execute({ sql: 'VACUUM INTO ?', args: [target] })
+  lastBackupAt = createdAt
+
+  const stat = await fs.stat(target)
+  console.log(`Database backup written (${reason}):`, target)
+  await applyRetention()
+  return { fileName, reason, createdAt: new Date(createdAt).toISOString(), sizeBytes: stat.size }
+}
+
+export async function createBackup(reason: BackupReason): Promise<BackupInfo> {
+  // Serialize so a scheduled run and a manual one never write at the same time
+  while (backupInFlight) {
+    await backupInFlight.catch(() => {})
+  }
+  backupInFlight = writeBackup(reason)
+  try {
+    return await backupInFlight
+  } finally {
+    backupInFlight = null
+  }
+}
+
+function startSchedule() {
+  if (scheduleTimer) clearInterval(scheduleTimer)
+  scheduleTimer = setInterval(async () => {
+    try {
+      if (await getLastWriteTime() <= lastBackupAt) return
+      await createBackup('interval')
+    } catch (error) {
+      console.error('Scheduled Backup Error:', error)
+    }
+  }, settings.intervalMinutes * 60 * 1000)
+}
+
+/**
+ * Replaces the live database with a backup and relaunches the app so every
+ * handle (drizzle, renderer state) starts fresh against the restored file.
+ */
+async function restoreBackup(fileName: string) {
+  if (!BACKUP_FILE_PATTERN.test(fileName)) throw new Error(`Invalid backup name: ${fileName}`)
+  const source = path.join(getBackupsDir(), fileName)
+  await fs.access(source)
+
+  await createBackup('pre-restore')
+  if (scheduleTimer) clearInterval(scheduleTimer)
+  client.close()
+
+  await fs.copyFile(source, dbPath)
+  await fs.rm(`${dbPath}-wal`, { force: true })
+  await fs.rm(`${dbPath}-shm`, { force: true })
+
+  app.relaunch()
+  app.exit(0)
+}
+
+/**
+ * Wires the backup service to the open database. Call before any migration runs.
+ */
+export async function initBackups(dbClient: Client, databasePath: string) {
+  client = dbClient
+  dbPath = databasePath
+  settings = await loadSettings()
+  setupBackupHandlers()
+}
+
+/**
+ * Takes the launch backup and starts the periodic schedule. Failures are logged,
+ * never fatal: the app stays usable without backups.
+ */
+export async function startBackups() {
+  try {
+    await createBackup('launch')
+  } catch (error) {
+    console.error('Launch Backup Error:', error)
+  }
+  startSchedule()
+}
+
+function setupBackupHandlers() {
+  // ============================================
+  // Backup Handlers
+  // ============================================
+
+  handle('backup-list', async () => {
+    try {
+      return await listBackups()
+    } catch (error) {
+      console.error('List Backups Error:', error)
+      throw error
+    }
+  })
+
+  handle('backup-create', async () => {
+    try {
+      return await createBackup('manual')
+    } catch (error) {
+      console.error('Create Backup Error:', error)
+      throw error
+    }
+  })
+
+  handle('backup-restore', async (_, fileName) => {
+    try {
+      await restoreBackup(fileName)
+      return { success: true }
+    } catch (error) {
+      console.error('Restore Backup Error:', error)
+      throw error
+    }
+  })
+
+  handle('backup-get-settings', async () => {
+    return { ...settings }
+  })
+
+  handle('backup-set-settings', async (_, next) => {
+    try {
+      settings = normalizeSettings({ ...settings, ...next })
+      await fs.writeFile(getSettingsPath(), JSON.stringify(settings, null, 2), 'utf-8')
+      startSchedule()
+      await applyRetention()
+      return { ...settings }
+    } catch (error) {
+      console.error('Save Backup Settings Error:', error)
+      throw error
+    }
+  })
+}
@@ -0,0 +1,215 @@
+import { joinSceneContent } from '../src/db/scenes'
+import { isSafeId } from './attachments'
+
+/**
+ * Portable single-project archive (.muse). A bundle is plain JSON in the same
+ * shapes the renderer store uses, so it stays readable and diffable by hand.
+ */
+
+export const MUSE_BUNDLE_FORMAT = 'muse-project'
+// Bump when the bundle layout changes; imports refuse bundles newer than this.
+// v1: project, chapters, characters, terms, prompts
+// v2: adds chapter scenes, parts, notes, relationships, timeline and comments.
+//     v1 bundles still import, with those left empty.
+export const MUSE_BUNDLE_VERSION = 2
+export const MUSE_FILE_EXTENSION = 'muse'
+
+export interface MuseBundle {
+  format: typeof MUSE_BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  project: any
+  parts: any[] // In book order; chapters name theirs with `partId`
+  chapters: any[] // In story order, each with its ordered `scenes`
+  characters: any[]
+  relationships: any[] // Directed edges between characters, by character ID
+  terms: any[]
+  timeline: any[] // Events; `anchorEventId` names another event in the list
+  notes: any[] // Text and links only: attachment files stay on the exporting machine
+  comments: any[] // Comment threads; anchors are the `data-comment-id` marks in chapter content
+  prompts: any[] // Project-scoped prompt overrides
+}
+
+export function createBundle(data: {
+  project: any
+  parts?: any[]
+  chapters: any[]
+  characters: any[]
+  relationships?: any[]
+  terms: any[]
+  timeline?: any[]
+  notes?: any[]
+  comments?: any[]
+  prompts?: any[]
+}): MuseBundle {
+  return {
+    format: MUSE_BUNDLE_FORMAT,
+    version: MUSE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: data.project,
+    parts: data.parts || [],
+    chapters: data.chapters,
+    characters: data.characters,
+    relationships: data.relationships || [],
+    terms: data.terms,
+    timeline: data.timeline || [],
+    notes: (data.notes || []).map(({ attachments: _attachments, ...note }) => note),
+    comments: data.comments || [],
+    prompts: data.prompts || []
+  }
+}
+
+// Scenes are optional (bundles from before scenes have none); malformed ones are skipped
+function chapterScenes(chapter: any): any[] {
+  return Array.isArray(chapter.scenes) ? chapter.scenes.filter((s: any) => s && typeof s.id === 'string') : []
+}
+
+function requireEntries(value: unknown, label: string, requiredField: string): any[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) throw new Error(`Invalid .muse file: "${label}" must be a list`)
+  value.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object' || typeof entry.id !== 'string' || typeof entry[requiredField] !== 'string') {
+      throw new Error(`Invalid .muse file: ${label} #${index + 1} is missing "id" or "${requiredField}"`)
+    }
+  })
+  return value
+}
+
+/**
+ * Parses and validates a bundle file. Throws an Error whose message can be shown to the user.
+ */
+export function parseBundle(raw: string): MuseBundle {
+  let data: any
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    throw new Error('This file is not a valid .muse project (it is not JSON).')
+  }
+  if (!data || data.format !== MUSE_BUNDLE_FORMAT) {
+    throw new Error('This file is not a .muse project export.')
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('This .muse file has no valid format version.')
+  }
+  if (data.version > MUSE_BUNDLE_VERSION) {
+    throw new Error(`This .muse file was created by a newer version of the app (format v${data.version}). Update the app to import it.`)
+  }
+  if (!data.project || typeof data.project !== 'object' || typeof data.project.title !== 'string') {
+    throw new Error('Invalid .muse file: project metadata is missing.')
+  }
+
+  return {
+    format: MUSE_BUNDLE_FORMAT,
+    version: data.version,
+    exportedAt: String(data.exportedAt || ''),
+    project: data.project,
+    parts: requireEntries(data.parts, 'part', 'title'),
+    chapters: requireEntries(data.chapters, 'chapter', 'title').map(c => ({ ...c, scenes: chapterScenes(c) })),
+    characters: requireEntries(data.characters, 'character', 'name'),
+    relationships: requireEntries(data.relationships, 'relationship', 'fromId'),
+    terms: requireEntries(data.terms, 'term', 'term'),
+    timeline: requireEntries(data.timeline, 'timeline event', 'title'),
+    notes: requireEntries(data.notes, 'note', 'title'),
+    comments: requireEntries(data.comments, 'comment', 'chapterId'),
+    prompts: Array.isArray(data.prompts) ? data.prompts : []
+  }
+}
+
+/**
+ * Gives every entity whose ID already exists locally a fresh ID and rewrites the
+ * cross-references (chapter -> part and characters, scene -> POV character,
+ * relationship -> characters and chapter, term -> chapters, timeline event ->
+ * anchor event, chapters and characters, note -> chapters, characters and terms,
+ * comment -> chapter and thread) to match. Comment anchor IDs are kept: the chapter text names them.
+ */
+export function remapBundleIds(bundle: MuseBundle, takenIds: {
+  projects: Set<string>
+  parts: Set<string>
+  chapters: Set<string>
+  scenes: Set<string>
+  characters: Set<string>
+  relationships: Set<string>
+  terms: Set<string>
+  timeline: Set<string>
+  notes: Set<string>
+  comments: Set<string>
+}): MuseBundle {
+  const remap = (items: any[], taken: Set<string>) => {
+    const idMap = new Map<string, string>()
+    for (const item of items) {
+      idMap.set(item.id, taken.has(item.id) ? crypto.randomUUID() : item.id)
+    }
+    return idMap
+  }
+
+  // The project ID names its attachments folder, so one that isn't safe in a path is replaced too
+  const projectId = typeof bundle.project.id !== 'string' || !isSafeId(bundle.project.id) || takenIds.projects.has(bundle.project.id)
+    ? crypto.randomUUID()
+    : bundle.project.id
+  const partIds = remap(bundle.parts, takenIds.parts)
+  const chapterIds = remap(bundle.chapters, takenIds.chapters)
+  const characterIds = remap(bundle.characters, takenIds.characters)
+  const relationshipIds = remap(bundle.relationships, takenIds.relationships)
+  const termIds = remap(bundle.terms, takenIds.terms)
+  const eventIds = remap(bundle.timeline, takenIds.timeline)
+  const noteIds = remap(bundle.notes, takenIds.notes)
+  const commentIds = remap(bundle.comments, takenIds.comments)
+  const sceneIds = remap(bundle.chapters.flatMap(c => c.scenes), takenIds.scenes)
+
+  const remapScenes = (scenes: any[]) => scenes.map(s => ({
+    ...s,
+    id: sceneIds.get(s.id),
+    povCharacterId: s.povCharacterId ? characterIds.get(s.povCharacterId) || s.povCharacterId : undefined
+  }))
+
+  return {
+    ...bundle,
+    project: { ...bundle.project, id: projectId },
+    parts: bundle.parts.map(p => ({ ...p, id: partIds.get(p.id) })),
+    chapters: bundle.chapters.map(c => {
+      const scenes = remapScenes(c.scenes)
+      return {
+        ...c,
+        id: chapterIds.get(c.id),
+        partId: c.partId ? partIds.get(c.partId) : undefined,
+        characters: (c.characters || []).map((id: string) => characterIds.get(id) || id),
+        scenes,
+        // Re-joined so the scene breaks name the scenes' new IDs
+        content: scenes.length ? joinSceneContent(scenes) : c.content
+      }
+    }),
+    characters: bundle.characters.map(c => ({ ...c, id: characterIds.get(c.id) })),
+    relationships: bundle.relationships.map(r => ({
+      ...r,
+      id: relationshipIds.get(r.id),
+      fromId: characterIds.get(r.fromId) || r.fromId,
+      toId: characterIds.get(r.toId) || r.toId,
+      changesInChapterId: r.changesInChapterId ? chapterIds.get(r.changesInChapterId) || r.changesInChapterId : undefined
+    })),
+    terms: bundle.terms.map(t => ({
+      ...t,
+      id: termIds.get(t.id),
+      chapters: (t.chapters || []).map((id: string) => chapterIds.get(id) || id)
+    })),
+    timeline: bundle.timeline.map(e => ({
+      ...e,
+      id: eventIds.get(e.id),
+      anchorEventId: e.anchorEventId ? eventIds.get(e.anchorEventId) || e.anchorEventId : undefined,
+      chapters: (e.chapters || []).map((id: string) => chapterIds.get(id) || id),
+      characters: (e.characters || []).map((id: string) => characterIds.get(id) || id)
+    })),
+    notes: bundle.notes.map(n => ({
+      ...n,
+      id: noteIds.get(n.id),
+      chapters: (n.chapters || []).map((id: string) => chapterIds.get(id) || id),
+      characters: (n.characters || []).map((id: string) => characterIds.get(id) || id),
+      terms: (n.terms || []).map((id: string) => termIds.get(id) || id)
+    })),
+    comments: bundle.comments.map(c => ({
+      ...c,
+      id: commentIds.get(c.id),
+      chapterId: chapterIds.get(c.chapterId) || c.chapterId,
+      parentId: c.parentId ? commentIds.get(c.parentId) || c.parentId : undefined
+    }))
+  }
+}
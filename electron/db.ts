@@ -1,12 +1,37 @@
 import { drizzle, LibSQLDatabase } from 'drizzle-orm/libsql'
 import { createClient } from '@libsql/client'
 import * as schema from '../src/db/schema'
-import { eq } from 'drizzle-orm'
-import { app, ipcMain } from 'electron'
+import { eq, desc, sql, inArray, notInArray, and, or, isNull, isNotNull, lt, gte } from 'drizzle-orm'
+import { app, dialog, shell, BrowserWindow } from 'electron'
 import path from 'path'
+import fs from 'fs/promises'
+import { initBackups, createBackup, startBackups } from './backup'
+import { storeAttachment, copyAttachment, getAttachmentPath, removeAttachments, removeProjectAttachments } from './attachments'
+import { SEARCH_INDEX_SQL, chapterSearchEntries, characterSearchEntries, termSearchEntries, toFtsQuery, formatSnippet, SNIPPET_OPEN, SNIPPET_CLOSE, type SearchEntry } from './search'
+import { createBundle, parseBundle, remapBundleIds, MUSE_FILE_EXTENSION } from './bundle'
+import { getSchemaVersion, getPendingMigrations, runMigrations, stampLatestVersion, verifySchema } from './migrations'
+import { handle } from './ipc'
+import { joinSceneContent, splitSceneContent } from '../src/db/scenes'
+import type { ProjectSnapshot, StoryPart, StoryChapter, StoryScene, StoryBeat, Character, CharacterRelationship, StoryTerm, StoryNote, NoteAttachment, TimelineEvent, StoryComment, ChapterRevision, SearchResult } from '../src/stores/project'
+import type { StoredPrompt, PromptVersion, PromptKey, PromptScope } from '../src/stores/prompts'
+import type { WritingSession } from '../src/stores/sessions'
+import type { AiCallRecord, AiCallOutcome } from '../src/stores/aiCalls'
 
 let db: LibSQLDatabase<typeof schema>
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type ChapterRow = typeof schema.chapters.$inferSelect
+
+// Older snapshots beyond these are pruned per chapter on every new snapshot. Restore
+// snapshots are kept apart so a busy writing session can't push them out.
+const MAX_REVISIONS_PER_CHAPTER = 50
+const MAX_RESTORE_REVISIONS_PER_CHAPTER = 20
+
+// Saves this soon after the chapter's previous save snapshot update the newest one in
+// place, so autosaves during a writing session don't push the whole history out of the
+// window above. The snapshot that opened the window is kept as it was.
+const SAVE_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000
+
 function parseJsonSafe<T>(value: unknown, fallback: T): T {
   if (value === null || value === undefined) return fallback
   if (typeof value === 'object') return value as T
@@ -18,7 +43,848 @@ function parseJsonSafe<T>(value: unknown, fallback: T): T {
   }
 }
 
-// Manual table creation to avoid migration complexity in Electron for now
+function countWords(html: string | null | undefined): number {
+  if (!html) return 0
+  return html.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * True when the prose, synopsis or beats of an incoming chapter differ from the stored row
+ */
+function hasRevisionableChanges(
+  previous: ChapterRow,
+  next: { content?: string; summary?: string; beats?: unknown[] }
+): boolean {
+  return (previous.content || '') !== (next.content || '')
+    || (previous.summary || '') !== (next.summary || '')
+    || (previous.beats || '[]') !== JSON.stringify(next.beats || [])
+}
+
+/**
+ * Stores the current state of a chapter row as a revision and prunes the oldest ones.
+ * Skipped when the row matches the latest revision; merged into the latest one for
+ * saves within SAVE_SNAPSHOT_INTERVAL_MS of the one before it.
+ */
+async function snapshotChapter(tx: Transaction, row: ChapterRow, source: 'save' | 'restore') {
+  const [latest, prior] = await tx.select().from(schema.chapterRevisions)
+    .where(eq(schema.chapterRevisions.chapterId, row.id))
+    .orderBy(desc(schema.chapterRevisions.createdAt), desc(sql`rowid`))
+    .limit(2)
+  const snapshot = {
+    title: row.title,
+    summary: row.summary || '',
+    content: row.content || '',
+    beats: row.beats || '[]',
+    wordCount: countWords(row.content),
+    createdAt: new Date()
+  }
+
+  if (latest) {
+    const unchanged = (latest.content || '') === snapshot.content
+      && (latest.summary || '') === snapshot.summary
+      && (latest.beats || '[]') === snapshot.beats
+    if (unchanged) return
+    const sincePrior = Date.now() - (prior?.createdAt?.getTime() || 0)
+    if (source === 'save' && latest.source === 'save' && prior?.source === 'save' && sincePrior < SAVE_SNAPSHOT_INTERVAL_MS) {
+      await tx.update(schema.chapterRevisions).set(snapshot).where(eq(schema.chapterRevisions.id, latest.id))
+      return
+    }
+  }
+
+  await tx.insert(schema.chapterRevisions).values({
+    ...snapshot,
+    id: crypto.randomUUID(),
+    chapterId: row.id,
+    projectId: row.projectId,
+    source
+  })
+  const limit = source === 'save' ? MAX_REVISIONS_PER_CHAPTER : MAX_RESTORE_REVISIONS_PER_CHAPTER
+  await tx.run(sql`
+    DELETE FROM chapter_revisions
+    WHERE chapter_id = ${row.id}
+      AND source = ${source}
+      AND id NOT IN (
+        SELECT id FROM chapter_revisions
+        WHERE chapter_id = ${row.id} AND source = ${source}
+        ORDER BY created_at DESC, rowid DESC
+        LIMIT ${limit}
+      )
+  `)
+}
+
+/**
+ * Row mappers between the renderer's store shapes and DB rows.
+ * Kept in one place so load, save and future bulk operations agree on defaults.
+ */
+function toProjectRow(project: any) {
+  return {
+    id: project.id || 'default-project',
+    title: project.title,
+    author: project.author,
+    genre: project.genre,
+    ageGroup: project.ageGroup || '',
+    logline: project.logline,
+    synopsis: project.synopsis,
+    originalPremise: project.originalPremise || '',
+    storyBible: JSON.stringify(project.storyBible || {}),
+    wordGoal: Math.max(0, Math.round(Number(project.wordGoal) || 0)),
+    goalDeadline: project.goalDeadline || null,
+    monthlyBudget: Math.max(0, Number(project.monthlyBudget) || 0),
+    operationBudget: Math.max(0, Number(project.operationBudget) || 0),
+    updatedAt: new Date()
+  }
+}
+
+function fromProjectRow(p: typeof schema.projects.$inferSelect): ProjectSnapshot['project'] {
+  return {
+    id: p.id,
+    title: p.title,
+    author: p.author || '',
+    genre: p.genre || '',
+    ageGroup: p.ageGroup || '',
+    logline: p.logline || '',
+    synopsis: p.synopsis || '',
+    originalPremise: p.originalPremise || '',
+    storyBible: parseJsonSafe<ProjectSnapshot['project']['storyBible']>(p.storyBible, {} as ProjectSnapshot['project']['storyBible']),
+    parentProjectId: p.parentProjectId || undefined,
+    forkedAt: p.forkedAt?.toISOString(),
+    forkChapterId: p.forkChapterId || undefined,
+    wordGoal: Number(p.wordGoal || 0),
+    goalDeadline: p.goalDeadline || undefined,
+    monthlyBudget: Number(p.monthlyBudget || 0),
+    operationBudget: Number(p.operationBudget || 0)
+  }
+}
+
+function toChapterRow(c: any, projectId: string, order: number) {
+  return {
+    id: c.id,
+    projectId,
+    title: c.title,
+    summary: c.summary,
+    status: c.status,
+    order,
+    content: c.content || '',
+    characterIds: JSON.stringify(c.characters || []),
+    beats: JSON.stringify(c.beats || []),
+    placeholder: c.placeholder || '',
+    validatorNotes: c.validatorNotes || '',
+    draftStatus: c.draftStatus || c.status || 'draft',
+    denseSummary: c.denseSummary || '',
+    contextSnapshot: c.contextSnapshot || '',
+    contextTokens: c.contextTokens || 0,
+    lastPromptHash: c.lastPromptHash || '',
+    originChapterId: c.originChapterId || null,
+    partId: c.partId || null
+  }
+}
+
+function fromChapterRow(c: ChapterRow): StoryChapter {
+  return {
+    id: c.id,
+    title: c.title,
+    summary: c.summary || '',
+    status: (c.status || 'draft') as StoryChapter['status'],
+    content: c.content || '',
+    characters: parseJsonSafe<string[]>(c.characterIds, []),
+    beats: parseJsonSafe<StoryBeat[]>(c.beats, []),
+    placeholder: c.placeholder || '',
+    validatorNotes: c.validatorNotes || '',
+    draftStatus: (c.draftStatus || c.status || 'draft') as StoryChapter['draftStatus'],
+    denseSummary: c.denseSummary || '',
+    contextSnapshot: c.contextSnapshot || '',
+    contextTokens: Number(c.contextTokens || 0),
+    lastPromptHash: c.lastPromptHash || '',
+    originChapterId: c.originChapterId || undefined,
+    partId: c.partId || undefined
+  }
+}
+
+function toPartRow(p: any, projectId: string, order: number) {
+  return {
+    id: p.id,
+    projectId,
+    order,
+    title: p.title,
+    summary: p.summary || '',
+    actRole: p.actRole || ''
+  }
+}
+
+function fromPartRow(p: typeof schema.parts.$inferSelect): StoryPart {
+  return {
+    id: p.id,
+    title: p.title,
+    summary: p.summary || '',
+    actRole: (p.actRole || '') as StoryPart['actRole']
+  }
+}
+
+function toSceneRow(s: any, chapterId: string, projectId: string, order: number) {
+  return {
+    id: s.id,
+    chapterId,
+    projectId,
+    order,
+    title: s.title || '',
+    povCharacterId: s.povCharacterId || null,
+    location: s.location || '',
+    goal: s.goal || '',
+    conflict: s.conflict || '',
+    outcome: s.outcome || '',
+    beats: JSON.stringify(s.beats || []),
+    content: s.content || '',
+    summary: s.summary || ''
+  }
+}
+
+function fromSceneRow(s: typeof schema.scenes.$inferSelect): StoryScene {
+  return {
+    id: s.id,
+    title: s.title || '',
+    povCharacterId: s.povCharacterId || undefined,
+    location: s.location || '',
+    goal: s.goal || '',
+    conflict: s.conflict || '',
+    outcome: s.outcome || '',
+    beats: parseJsonSafe<StoryBeat[]>(s.beats, []),
+    content: s.content || '',
+    summary: s.summary || ''
+  }
+}
+
+function toCharacterRow(c: any, projectId: string) {
+  return {
+    id: c.id,
+    projectId,
+    name: c.name,
+    role: c.role,
+    bio: c.bio,
+    traits: c.traits,
+    isPov: !!c.isPov,
+    voiceDiction: c.voiceDiction || '',
+    voiceForbidden: c.voiceForbidden || '',
+    voiceMetaphors: c.voiceMetaphors || ''
+  }
+}
+
+function fromCharacterRow(c: typeof schema.characters.$inferSelect): Character {
+  return {
+    id: c.id,
+    name: c.name,
+    role: c.role || '',
+    bio: c.bio || '',
+    traits: c.traits || '',
+    isPov: !!c.isPov,
+    voiceDiction: c.voiceDiction || '',
+    voiceForbidden: c.voiceForbidden || '',
+    voiceMetaphors: c.voiceMetaphors || ''
+  }
+}
+
+function toRelationshipRow(r: any, projectId: string) {
+  return {
+    id: r.id,
+    projectId,
+    fromCharacterId: r.fromId,
+    toCharacterId: r.toId,
+    type: r.type || 'other',
+    description: r.description || '',
+    changesInChapterId: r.changesInChapterId || null
+  }
+}
+
+function fromRelationshipRow(r: typeof schema.characterRelationships.$inferSelect): CharacterRelationship {
+  return {
+    id: r.id,
+    fromId: r.fromCharacterId,
+    toId: r.toCharacterId,
+    type: (r.type || 'other') as CharacterRelationship['type'],
+    description: r.description || '',
+    changesInChapterId: r.changesInChapterId || undefined
+  }
+}
+
+function toTimelineEventRow(e: any, projectId: string) {
+  return {
+    id: e.id,
+    projectId,
+    title: e.title,
+    description: e.description || '',
+    dateLabel: e.dateLabel || '',
+    anchorEventId: e.anchorEventId || null,
+    offsetDays: Number(e.offsetDays) || 0,
+    chapterIds: JSON.stringify(e.chapters || []),
+    characterIds: JSON.stringify(e.characters || [])
+  }
+}
+
+function fromTimelineEventRow(e: typeof schema.timelineEvents.$inferSelect): TimelineEvent {
+  return {
+    id: e.id,
+    title: e.title,
+    description: e.description || '',
+    dateLabel: e.dateLabel || '',
+    anchorEventId: e.anchorEventId || undefined,
+    offsetDays: Number(e.offsetDays) || 0,
+    chapters: parseJsonSafe<string[]>(e.chapterIds, []),
+    characters: parseJsonSafe<string[]>(e.characterIds, [])
+  }
+}
+
+function toCommentRow(c: any, projectId: string) {
+  return {
+    id: c.id,
+    projectId,
+    chapterId: c.chapterId,
+    anchorId: c.anchorId,
+    parentId: c.parentId || null,
+    body: c.body || '',
+    quote: c.quote || '',
+    status: c.status === 'resolved' ? 'resolved' : 'open',
+    source: c.source === 'continuity' ? 'continuity' : 'user',
+    createdAt: c.createdAt ? new Date(c.createdAt) : new Date(),
+    resolvedAt: c.resolvedAt ? new Date(c.resolvedAt) : null
+  }
+}
+
+function fromCommentRow(c: typeof schema.comments.$inferSelect): StoryComment {
+  return {
+    id: c.id,
+    chapterId: c.chapterId,
+    anchorId: c.anchorId,
+    parentId: c.parentId || undefined,
+    body: c.body || '',
+    quote: c.quote || '',
+    status: (c.status || 'open') as StoryComment['status'],
+    source: (c.source || 'user') as StoryComment['source'],
+    createdAt: c.createdAt?.toISOString() || '',
+    resolvedAt: c.resolvedAt?.toISOString()
+  }
+}
+
+function toWritingSessionRow(w: WritingSession, projectId: string) {
+  return {
+    id: w.id,
+    projectId,
+    chapterId: w.chapterId,
+    startedAt: new Date(w.startedAt),
+    endedAt: new Date(w.endedAt),
+    humanWordsAdded: Math.max(0, Math.round(w.humanWordsAdded || 0)),
+    aiWordsAdded: Math.max(0, Math.round(w.aiWordsAdded || 0)),
+    wordsRemoved: Math.max(0, Math.round(w.wordsRemoved || 0))
+  }
+}
+
+function fromWritingSessionRow(w: typeof schema.writingSessions.$inferSelect): WritingSession {
+  return {
+    id: w.id,
+    chapterId: w.chapterId,
+    startedAt: w.startedAt.toISOString(),
+    endedAt: w.endedAt.toISOString(),
+    humanWordsAdded: Number(w.humanWordsAdded || 0),
+    aiWordsAdded: Number(w.aiWordsAdded || 0),
+    wordsRemoved: Number(w.wordsRemoved || 0)
+  }
+}
+
+function toAiCallRow(c: AiCallRecord, projectId: string | null) {
+  return {
+    id: c.id,
+    projectId,
+    chapterId: c.chapterId || null,
+    operation: c.operation,
+    promptKey: c.promptKey || null,
+    provider: c.provider,
+    model: c.model,
+    streamed: !!c.streamed,
+    systemHash: c.systemHash,
+    userHash: c.userHash,
+    systemPrompt: c.systemPrompt ?? null,
+    userPrompt: c.userPrompt ?? null,
+    promptTokens: c.promptTokens,
+    completionTokens: c.completionTokens,
+    totalTokens: c.totalTokens,
+    cost: c.cost,
+    latencyMs: Math.max(0, Math.round(c.latencyMs || 0)),
+    retries: Math.max(0, Math.round(c.retries || 0)),
+    outcome: c.outcome,
+    error: c.error || null,
+    createdAt: new Date(c.createdAt)
+  }
+}
+
+function fromAiCallRow(c: typeof schema.aiCalls.$inferSelect): AiCallRecord {
+  return {
+    id: c.id,
+    chapterId: c.chapterId || undefined,
+    operation: c.operation,
+    promptKey: c.promptKey || undefined,
+    provider: c.provider || 'openrouter',
+    model: c.model,
+    streamed: !!c.streamed,
+    systemHash: c.systemHash,
+    userHash: c.userHash,
+    systemPrompt: c.systemPrompt ?? undefined,
+    userPrompt: c.userPrompt ?? undefined,
+    promptTokens: c.promptTokens ?? null,
+    completionTokens: c.completionTokens ?? null,
+    totalTokens: c.totalTokens ?? null,
+    cost: c.cost ?? null,
+    latencyMs: Number(c.latencyMs || 0),
+    retries: Number(c.retries || 0),
+    outcome: c.outcome as AiCallOutcome,
+    error: c.error || undefined,
+    createdAt: c.createdAt.toISOString()
+  }
+}
+
+function toTermRow(t: any, projectId: string) {
+  return {
+    id: t.id,
+    projectId,
+    term: t.term,
+    definition: t.definition || '',
+    notes: t.notes || '',
+    chapterIds: JSON.stringify(t.chapters || []),
+    category: t.category || 'other',
+    aliases: t.aliases || ''
+  }
+}
+
+function fromTermRow(t: typeof schema.terminology.$inferSelect): StoryTerm {
+  return {
+    id: t.id,
+    term: t.term,
+    definition: t.definition || '',
+    notes: t.notes || '',
+    chapters: parseJsonSafe<string[]>(t.chapterIds, []),
+    category: (t.category || 'other') as StoryTerm['category'],
+    aliases: t.aliases || ''
+  }
+}
+
+function toNoteRow(n: any, projectId: string) {
+  return {
+    id: n.id,
+    projectId,
+    title: n.title,
+    content: n.content || '',
+    tags: JSON.stringify(n.tags || []),
+    chapterIds: JSON.stringify(n.chapters || []),
+    characterIds: JSON.stringify(n.characters || []),
+    termIds: JSON.stringify(n.terms || []),
+    includeInContext: !!n.includeInContext,
+    updatedAt: new Date()
+  }
+}
+
+function fromNoteRow(n: typeof schema.notes.$inferSelect, attachments: NoteAttachment[]): StoryNote {
+  return {
+    id: n.id,
+    title: n.title,
+    content: n.content || '',
+    tags: parseJsonSafe<string[]>(n.tags, []),
+    chapters: parseJsonSafe<string[]>(n.chapterIds, []),
+    characters: parseJsonSafe<string[]>(n.characterIds, []),
+    terms: parseJsonSafe<string[]>(n.termIds, []),
+    includeInContext: !!n.includeInContext,
+    attachments,
+    updatedAt: n.updatedAt?.toISOString()
+  }
+}
+
+function fromAttachmentRow(a: typeof schema.noteAttachments.$inferSelect): NoteAttachment {
+  return {
+    id: a.id,
+    noteId: a.noteId,
+    fileName: a.fileName,
+    sizeBytes: Number(a.sizeBytes || 0),
+    createdAt: a.createdAt?.toISOString() || ''
+  }
+}
+
+/**
+ * Replaces the search index rows for one entity. Called inside the same transaction
+ * as the entity write so the index can't drift from the tables.
+ */
+async function writeSearchEntries(tx: Transaction, entityId: string, entries: SearchEntry[]) {
+  await tx.run(sql`DELETE FROM search_index WHERE entity_id = ${entityId}`)
+  for (const entry of entries) {
+    if (!entry.body && !entry.title) continue
+    await tx.run(sql`
+      INSERT INTO search_index (kind, field, entity_id, project_id, title, body)
+      VALUES (${entry.kind}, ${entry.field}, ${entry.entityId}, ${entry.projectId}, ${entry.title}, ${entry.body})
+    `)
+  }
+}
+
+/**
+ * Replaces a chapter's scene rows with `scenes`, in order. Scenes missing from the list are deleted.
+ */
+async function writeChapterScenes(tx: Transaction, projectId: string, chapterId: string, scenes: any[]) {
+  const keepIds = scenes.map(scene => scene.id)
+  await tx.delete(schema.scenes).where(keepIds.length > 0
+    ? and(eq(schema.scenes.chapterId, chapterId), notInArray(schema.scenes.id, keepIds))
+    : eq(schema.scenes.chapterId, chapterId))
+  for (const [index, scene] of scenes.entries()) {
+    const row = toSceneRow(scene, chapterId, projectId, index)
+    await tx.insert(schema.scenes).values(row).onConflictDoUpdate({
+      target: schema.scenes.id,
+      set: { ...row, id: undefined }
+    })
+  }
+}
+
+async function touchProject(tx: Transaction, projectId: string) {
+  await tx.update(schema.projects).set({ updatedAt: new Date() }).where(eq(schema.projects.id, projectId))
+}
+
+/**
+ * Reads a whole project in store format, or null if it doesn't exist or is in the trash.
+ * Trashed chapters, characters and terms are left out.
+ */
+async function readProject(projectId: string) {
+  const project = await db.query.projects.findFirst({
+    where: eq(schema.projects.id, projectId)
+  })
+
+  if (!project || project.deletedAt) return null
+
+  const dbParts = await db.query.parts.findMany({
+    where: eq(schema.parts.projectId, projectId),
+    orderBy: (parts, { asc }) => [asc(parts.order)]
+  })
+
+  const dbChapters = await db.query.chapters.findMany({
+    where: and(eq(schema.chapters.projectId, projectId), isNull(schema.chapters.deletedAt)),
+    orderBy: (chapters, { asc }) => [asc(chapters.order)]
+  })
+
+  const dbCharacters = await db.query.characters.findMany({
+    where: and(eq(schema.characters.projectId, projectId), isNull(schema.characters.deletedAt))
+  })
+
+  const dbTerms = await db.query.terminology.findMany({
+    where: and(eq(schema.terminology.projectId, projectId), isNull(schema.terminology.deletedAt))
+  })
+
+  // Edges to a trashed character stay in the table but out of the snapshot until it is restored
+  const liveCharacterIds = new Set(dbCharacters.map(c => c.id))
+  const dbRelationships = (await db.query.characterRelationships.findMany({
+    where: eq(schema.characterRelationships.projectId, projectId)
+  })).filter(r => liveCharacterIds.has(r.fromCharacterId) && liveCharacterIds.has(r.toCharacterId))
+
+  const dbEvents = await db.query.timelineEvents.findMany({
+    where: eq(schema.timelineEvents.projectId, projectId)
+  })
+
+  const dbNotes = await db.query.notes.findMany({
+    where: and(eq(schema.notes.projectId, projectId), isNull(schema.notes.deletedAt)),
+    orderBy: (notes, { desc }) => [desc(notes.updatedAt)]
+  })
+  const dbAttachments = await db.query.noteAttachments.findMany({
+    where: eq(schema.noteAttachments.projectId, projectId),
+    orderBy: (attachments, { asc }) => [asc(attachments.createdAt)]
+  })
+  const attachmentsByNote = new Map<string, NoteAttachment[]>()
+  for (const row of dbAttachments) {
+    const list = attachmentsByNote.get(row.noteId) || []
+    list.push(fromAttachmentRow(row))
+    attachmentsByNote.set(row.noteId, list)
+  }
+
+  // Comments on a trashed chapter go to the trash with it
+  const liveChapterIds = new Set(dbChapters.map(c => c.id))
+  const dbComments = (await db.query.comments.findMany({
+    where: eq(schema.comments.projectId, projectId),
+    orderBy: (comments, { asc }) => [asc(comments.createdAt)]
+  })).filter(c => liveChapterIds.has(c.chapterId))
+
+  const dbScenes = await db.query.scenes.findMany({
+    where: eq(schema.scenes.projectId, projectId),
+    orderBy: (scenes, { asc }) => [asc(scenes.order)]
+  })
+  const scenesByChapter = new Map<string, StoryScene[]>()
+  for (const row of dbScenes) {
+    const list = scenesByChapter.get(row.chapterId) || []
+    list.push(fromSceneRow(row))
+    scenesByChapter.set(row.chapterId, list)
+  }
+  console.log(`Loaded ${dbParts.length} parts, ${dbChapters.length} chapters, ${dbScenes.length} scenes, ${dbCharacters.length} characters, ${dbRelationships.length} relationships, ${dbTerms.length} terms, ${dbEvents.length} timeline events, ${dbNotes.length} notes, ${dbComments.length} comments`)
+
+  // Transform back to store format
+  return {
+    project: fromProjectRow(project),
+    parts: dbParts.map(fromPartRow),
+    chapters: dbChapters.map(row => ({ ...fromChapterRow(row), scenes: scenesByChapter.get(row.id) || [] })),
+    characters: dbCharacters.map(fromCharacterRow),
+    relationships: dbRelationships.map(fromRelationshipRow),
+    terms: dbTerms.map(fromTermRow),
+    timeline: dbEvents.map(fromTimelineEventRow),
+    notes: dbNotes.map(row => fromNoteRow(row, attachmentsByNote.get(row.id) || [])),
+    comments: dbComments.map(fromCommentRow)
+  }
+}
+
+async function findExistingIds(table: typeof schema.projects | typeof schema.parts | typeof schema.chapters | typeof schema.scenes | typeof schema.characters | typeof schema.characterRelationships | typeof schema.terminology | typeof schema.timelineEvents | typeof schema.notes | typeof schema.comments, ids: string[]) {
+  if (ids.length === 0) return new Set<string>()
+  const rows = await db.select({ id: table.id }).from(table).where(inArray(table.id, ids))
+  return new Set(rows.map(r => r.id))
+}
+
+// ============================================
+// Improved Prompts
+// ============================================
+
+type ImprovedPromptRow = typeof schema.improvedPrompts.$inferSelect
+
+function fromPromptRow(p: ImprovedPromptRow): StoredPrompt {
+  return {
+    id: p.id,
+    name: p.name,
+    basePromptKey: p.basePromptKey as PromptKey,
+    scope: p.scope as PromptScope,
+    scopeValue: p.scopeValue,
+    originalPrompt: p.originalPrompt,
+    improvedPrompt: p.improvedPrompt,
+    score: (p.score || 0) / 100,
+    mutations: parseJsonSafe<string[]>(p.mutations, []),
+    activeVersionId: p.activeVersionId || null,
+    createdAt: p.createdAt?.toISOString() || new Date().toISOString(),
+    updatedAt: p.updatedAt?.toISOString() || new Date().toISOString()
+  }
+}
+
+function fromPromptVersionRow(v: typeof schema.promptVersions.$inferSelect): PromptVersion {
+  return {
+    id: v.id,
+    promptId: v.promptId,
+    version: v.version,
+    improvedPrompt: v.improvedPrompt,
+    score: (v.score || 0) / 100,
+    mutations: parseJsonSafe<string[]>(v.mutations, []),
+    sampleOutput: v.sampleOutput || '',
+    model: v.model || '',
+    createdAt: v.createdAt?.toISOString() || new Date().toISOString()
+  }
+}
+
+/**
+ * Appends a version to a prompt override and pins it. Versions are never overwritten,
+ * so a worse optimization run can always be rolled back.
+ */
+async function addPromptVersion(tx: Transaction, promptId: string, data: {
+  improvedPrompt: string
+  score: number
+  mutations: string[]
+  sampleOutput?: string
+  model?: string
+}) {
+  const [latest] = await tx.select({ version: sql<number>`MAX(${schema.promptVersions.version})` })
+    .from(schema.promptVersions)
+    .where(eq(schema.promptVersions.promptId, promptId))
+  const row = {
+    id: crypto.randomUUID(),
+    promptId,
+    version: Number(latest?.version || 0) + 1,
+    improvedPrompt: data.improvedPrompt,
+    score: Math.round(data.score * 100),
+    mutations: JSON.stringify(data.mutations),
+    sampleOutput: data.sampleOutput || '',
+    model: data.model || '',
+    createdAt: new Date()
+  }
+  await tx.insert(schema.promptVersions).values(row)
+  return row
+}
+
+async function deletePromptOverrides(tx: Transaction, where: ReturnType<typeof and>) {
+  const rows = await tx.select({ id: schema.improvedPrompts.id }).from(schema.improvedPrompts).where(where)
+  if (rows.length === 0) return
+  await tx.delete(schema.promptVersions).where(inArray(schema.promptVersions.promptId, rows.map(r => r.id)))
+  await tx.delete(schema.improvedPrompts).where(inArray(schema.improvedPrompts.id, rows.map(r => r.id)))
+}
+
+// Project-scoped overrides travel with the project (export, fork) under the new project's ID
+async function copyProjectPrompts(tx: Transaction, prompts: any[], projectId: string) {
+  const copiedKeys = new Set<string>()
+  for (const prompt of prompts) {
+    if (typeof prompt?.basePromptKey !== 'string' || typeof prompt?.improvedPrompt !== 'string') continue
+    if (copiedKeys.has(prompt.basePromptKey)) continue
+    copiedKeys.add(prompt.basePromptKey)
+    const promptId = crypto.randomUUID()
+    const mutations = Array.isArray(prompt.mutations) ? prompt.mutations : []
+    const version = await addPromptVersion(tx, promptId, {
+      improvedPrompt: prompt.improvedPrompt,
+      score: Number(prompt.score) || 0,
+      mutations
+    })
+    await tx.insert(schema.improvedPrompts).values({
+      id: promptId,
+      name: String(prompt.name || prompt.basePromptKey),
+      basePromptKey: prompt.basePromptKey,
+      scope: 'project',
+      scopeValue: projectId,
+      originalPrompt: String(prompt.originalPrompt || ''),
+      improvedPrompt: prompt.improvedPrompt,
+      score: version.score,
+      mutations: version.mutations,
+      activeVersionId: version.id,
+      updatedAt: new Date()
+    })
+  }
+}
+
+async function readProjectPrompts(projectId: string) {
+  const rows = await db.select().from(schema.improvedPrompts).where(and(
+    eq(schema.improvedPrompts.scope, 'project'),
+    eq(schema.improvedPrompts.scopeValue, projectId)
+  ))
+  return rows.map(fromPromptRow)
+}
+
+// ============================================
+// Trash
+// Deletes only set deleted_at; rows are removed for good by purgeTrashItem,
+// either from the Trash view or once they're older than the retention window
+// ============================================
+
+type TrashKind = 'project' | 'chapter' | 'character' | 'term' | 'note'
+
+const TRASH_TABLES = {
+  project: schema.projects,
+  chapter: schema.chapters,
+  character: schema.characters,
+  term: schema.terminology,
+  note: schema.notes
+}
+
+// Attachment files a purge leaves behind; `storedName` absent means the project's whole folder
+type AttachmentCleanup = { projectId: string; storedName?: string }[]
+
+/**
+ * Deletes the files of purged attachments. Runs after the purge commits so a
+ * rolled-back purge never loses a file its row still points to.
+ */
+async function removeAttachmentFiles(cleanup: AttachmentCleanup) {
+  for (const item of cleanup) {
+    if (item.storedName) await removeAttachments([{ projectId: item.projectId, storedName: item.storedName }])
+    else await removeProjectAttachments(item.projectId)
+  }
+}
+
+/**
+ * Rebuilds the search rows of every live chapter, character and term in a project
+ */
+async function reindexProject(tx: Transaction, projectId: string) {
+  await tx.run(sql`DELETE FROM search_index WHERE project_id = ${projectId}`)
+  const chapters = await tx.query.chapters.findMany({
+    where: and(eq(schema.chapters.projectId, projectId), isNull(schema.chapters.deletedAt))
+  })
+  for (const row of chapters) await writeSearchEntries(tx, row.id, chapterSearchEntries(row))
+  const characters = await tx.query.characters.findMany({
+    where: and(eq(schema.characters.projectId, projectId), isNull(schema.characters.deletedAt))
+  })
+  for (const row of characters) await writeSearchEntries(tx, row.id, characterSearchEntries(row))
+  const terms = await tx.query.terminology.findMany({
+    where: and(eq(schema.terminology.projectId, projectId), isNull(schema.terminology.deletedAt))
+  })
+  for (const row of terms) await writeSearchEntries(tx, row.id, termSearchEntries(row))
+}
+
+async function restoreTrashItem(tx: Transaction, kind: TrashKind, id: string): Promise<string> {
+  if (kind === 'project') {
+    await tx.update(schema.projects).set({ deletedAt: null, updatedAt: new Date() }).where(eq(schema.projects.id, id))
+    await reindexProject(tx, id)
+    return id
+  }
+  if (kind === 'chapter') {
+    const row = await tx.query.chapters.findFirst({ where: eq(schema.chapters.id, id) })
+    if (!row) throw new Error(`Chapter ${id} not found`)
+    // Its old slot has likely been reused, so a restored chapter goes to the end of the book
+    const [{ maxOrder }] = await tx.select({ maxOrder: sql<number>`COALESCE(MAX("order"), -1)` })
+      .from(schema.chapters)
+      .where(and(eq(schema.chapters.projectId, row.projectId), isNull(schema.chapters.deletedAt)))
+    await tx.update(schema.chapters).set({ deletedAt: null, order: Number(maxOrder) + 1 }).where(eq(schema.chapters.id, id))
+    await writeSearchEntries(tx, id, chapterSearchEntries(row))
+    await touchProject(tx, row.projectId)
+    return row.projectId
+  }
+  if (kind === 'character') {
+    const row = await tx.query.characters.findFirst({ where: eq(schema.characters.id, id) })
+    if (!row) throw new Error(`Character ${id} not found`)
+    await tx.update(schema.characters).set({ deletedAt: null }).where(eq(schema.characters.id, id))
+    await writeSearchEntries(tx, id, characterSearchEntries(row))
+    return row.projectId
+  }
+  if (kind === 'note') {
+    const row = await tx.query.notes.findFirst({ where: eq(schema.notes.id, id) })
+    if (!row) throw new Error(`Note ${id} not found`)
+    await tx.update(schema.notes).set({ deletedAt: null }).where(eq(schema.notes.id, id))
+    return row.projectId
+  }
+  const row = await tx.query.terminology.findFirst({ where: eq(schema.terminology.id, id) })
+  if (!row) throw new Error(`Term ${id} not found`)
+  await tx.update(schema.terminology).set({ deletedAt: null }).where(eq(schema.terminology.id, id))
+  await writeSearchEntries(tx, id, termSearchEntries(row))
+  return row.projectId
+}
+
+/**
+ * Deletes a trashed item for good. Returns the attachment files to remove once the transaction commits.
+ */
+async function purgeTrashItem(tx: Transaction, kind: TrashKind, id: string): Promise<AttachmentCleanup> {
+  if (kind === 'project') {
+    await tx.delete(schema.parts).where(eq(schema.parts.projectId, id))
+    await tx.delete(schema.chapters).where(eq(schema.chapters.projectId, id))
+    await tx.delete(schema.scenes).where(eq(schema.scenes.projectId, id))
+    await tx.delete(schema.characters).where(eq(schema.characters.projectId, id))
+    await tx.delete(schema.characterRelationships).where(eq(schema.characterRelationships.projectId, id))
+    await tx.delete(schema.terminology).where(eq(schema.terminology.projectId, id))
+    await tx.delete(schema.timelineEvents).where(eq(schema.timelineEvents.projectId, id))
+    await tx.delete(schema.comments).where(eq(schema.comments.projectId, id))
+    await tx.delete(schema.writingSessions).where(eq(schema.writingSessions.projectId, id))
+    await tx.delete(schema.aiCalls).where(eq(schema.aiCalls.projectId, id))
+    await tx.delete(schema.notes).where(eq(schema.notes.projectId, id))
+    await tx.delete(schema.noteAttachments).where(eq(schema.noteAttachments.projectId, id))
+    await tx.delete(schema.chapterRevisions).where(eq(schema.chapterRevisions.projectId, id))
+    await deletePromptOverrides(tx, and(
+      eq(schema.improvedPrompts.scope, 'project'),
+      eq(schema.improvedPrompts.scopeValue, id)
+    ))
+    await tx.run(sql`DELETE FROM search_index WHERE project_id = ${id}`)
+    await tx.delete(schema.projects).where(eq(schema.projects.id, id))
+    return [{ projectId: id }]
+  }
+  const cleanup: AttachmentCleanup = []
+  if (kind === 'chapter') {
+    // Revisions outlive a trashed chapter but not a purged one
+    await tx.delete(schema.chapterRevisions).where(eq(schema.chapterRevisions.chapterId, id))
+    await tx.delete(schema.scenes).where(eq(schema.scenes.chapterId, id))
+    await tx.delete(schema.comments).where(eq(schema.comments.chapterId, id))
+  }
+  if (kind === 'character') {
+    await tx.delete(schema.characterRelationships).where(or(
+      eq(schema.characterRelationships.fromCharacterId, id),
+      eq(schema.characterRelationships.toCharacterId, id)
+    ))
+  }
+  if (kind === 'note') {
+    const attachments = await tx.select({ projectId: schema.noteAttachments.projectId, storedName: schema.noteAttachments.storedName })
+      .from(schema.noteAttachments).where(eq(schema.noteAttachments.noteId, id))
+    cleanup.push(...attachments)
+    await tx.delete(schema.noteAttachments).where(eq(schema.noteAttachments.noteId, id))
+  }
+  const table = TRASH_TABLES[kind]
+  await tx.delete(table).where(eq(table.id, id))
+  await writeSearchEntries(tx, id, [])
+  return cleanup
+}
+
+// Current shape of every table. Fresh databases are created from this; existing ones
+// get new tables from it and column changes from the versioned steps in migrations.ts.
+// verifySchema() fails startup if this drifts from src/db/schema.ts.
 const CREATE_TABLES_SQL = `
 CREATE TABLE IF NOT EXISTS projects (
   id TEXT PRIMARY KEY,
@@ -31,7 +897,15 @@ CREATE TABLE IF NOT EXISTS projects (
   original_premise TEXT DEFAULT '',
   story_bible TEXT DEFAULT '{}',
   created_at INTEGER DEFAULT (strftime('%s', 'now')),
-  updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+  updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+  deleted_at INTEGER,
+  parent_project_id TEXT,
+  forked_at INTEGER,
+  fork_chapter_id TEXT,
+  word_goal INTEGER DEFAULT 0,
+  goal_deadline TEXT,
+  monthly_budget REAL DEFAULT 0,
+  operation_budget REAL DEFAULT 0
 );
 
 CREATE TABLE IF NOT EXISTS chapters (
@@ -51,9 +925,41 @@ CREATE TABLE IF NOT EXISTS chapters (
   context_snapshot TEXT DEFAULT '',
   context_tokens INTEGER DEFAULT 0,
   last_prompt_hash TEXT DEFAULT '',
+  deleted_at INTEGER,
+  origin_chapter_id TEXT,
+  part_id TEXT,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS parts (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  "order" INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  summary TEXT DEFAULT '',
+  act_role TEXT DEFAULT '',
   FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS scenes (
+  id TEXT PRIMARY KEY,
+  chapter_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  "order" INTEGER NOT NULL,
+  title TEXT DEFAULT '',
+  pov_character_id TEXT,
+  location TEXT DEFAULT '',
+  goal TEXT DEFAULT '',
+  conflict TEXT DEFAULT '',
+  outcome TEXT DEFAULT '',
+  beats TEXT DEFAULT '[]',
+  content TEXT DEFAULT '',
+  summary TEXT DEFAULT '',
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scenes_chapter ON scenes(chapter_id, "order");
+
 CREATE TABLE IF NOT EXISTS characters (
   id TEXT PRIMARY KEY,
   project_id TEXT NOT NULL,
@@ -65,6 +971,7 @@ CREATE TABLE IF NOT EXISTS characters (
   voice_diction TEXT DEFAULT '',
   voice_forbidden TEXT DEFAULT '',
   voice_metaphors TEXT DEFAULT '',
+  deleted_at INTEGER,
   FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
 );
 
@@ -77,21 +984,165 @@ CREATE TABLE IF NOT EXISTS terminology (
   chapter_ids TEXT DEFAULT '[]',
   category TEXT DEFAULT 'other',
   aliases TEXT DEFAULT '',
+  deleted_at INTEGER,
   FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
 );
 
 CREATE TABLE IF NOT EXISTS improved_prompts (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
-  base_prompt_key TEXT NOT NULL UNIQUE,
+  base_prompt_key TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'global',
+  scope_value TEXT NOT NULL DEFAULT '',
   original_prompt TEXT NOT NULL,
   improved_prompt TEXT NOT NULL,
   score INTEGER DEFAULT 0,
   mutations TEXT DEFAULT '[]',
+  active_version_id TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+  UNIQUE (base_prompt_key, scope, scope_value)
+);
+
+CREATE TABLE IF NOT EXISTS chapter_revisions (
+  id TEXT PRIMARY KEY,
+  chapter_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  title TEXT DEFAULT '',
+  summary TEXT DEFAULT '',
+  content TEXT DEFAULT '',
+  beats TEXT DEFAULT '[]',
+  word_count INTEGER DEFAULT 0,
+  source TEXT DEFAULT 'save',
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapter ON chapter_revisions(chapter_id, created_at);
+
+CREATE TABLE IF NOT EXISTS notes (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT DEFAULT '',
+  tags TEXT DEFAULT '[]',
+  chapter_ids TEXT DEFAULT '[]',
+  character_ids TEXT DEFAULT '[]',
+  term_ids TEXT DEFAULT '[]',
+  include_in_context INTEGER DEFAULT 0,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+  deleted_at INTEGER,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS note_attachments (
+  id TEXT PRIMARY KEY,
+  note_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  stored_name TEXT NOT NULL,
+  size_bytes INTEGER DEFAULT 0,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_attachments_note ON note_attachments(note_id);
+
+CREATE TABLE IF NOT EXISTS timeline_events (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  date_label TEXT DEFAULT '',
+  anchor_event_id TEXT,
+  offset_days REAL DEFAULT 0,
+  chapter_ids TEXT DEFAULT '[]',
+  character_ids TEXT DEFAULT '[]',
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS character_relationships (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  from_character_id TEXT NOT NULL,
+  to_character_id TEXT NOT NULL,
+  type TEXT DEFAULT 'other',
+  description TEXT DEFAULT '',
+  changes_in_chapter_id TEXT,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS comments (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  chapter_id TEXT NOT NULL,
+  anchor_id TEXT NOT NULL,
+  parent_id TEXT,
+  body TEXT DEFAULT '',
+  quote TEXT DEFAULT '',
+  status TEXT DEFAULT 'open',
+  source TEXT DEFAULT 'user',
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  resolved_at INTEGER,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_chapter ON comments(chapter_id);
+
+CREATE TABLE IF NOT EXISTS writing_sessions (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  chapter_id TEXT NOT NULL,
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER NOT NULL,
+  human_words_added INTEGER DEFAULT 0,
+  ai_words_added INTEGER DEFAULT 0,
+  words_removed INTEGER DEFAULT 0,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_writing_sessions_project ON writing_sessions(project_id, started_at);
+
+CREATE TABLE IF NOT EXISTS ai_calls (
+  id TEXT PRIMARY KEY,
+  project_id TEXT,
+  chapter_id TEXT,
+  operation TEXT NOT NULL,
+  prompt_key TEXT,
+  provider TEXT DEFAULT 'openrouter',
+  model TEXT NOT NULL,
+  streamed INTEGER DEFAULT 0,
+  system_hash TEXT NOT NULL,
+  user_hash TEXT NOT NULL,
+  system_prompt TEXT,
+  user_prompt TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  cost REAL,
+  latency_ms INTEGER DEFAULT 0,
+  retries INTEGER DEFAULT 0,
+  outcome TEXT NOT NULL,
+  error TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_calls_project ON ai_calls(project_id, created_at);
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id TEXT PRIMARY KEY,
+  prompt_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  improved_prompt TEXT NOT NULL,
+  score INTEGER DEFAULT 0,
+  mutations TEXT DEFAULT '[]',
+  sample_output TEXT DEFAULT '',
+  model TEXT DEFAULT '',
   created_at INTEGER DEFAULT (strftime('%s', 'now')),
-  updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+  UNIQUE (prompt_id, version)
 );
-`
+${SEARCH_INDEX_SQL}`
 
 export async function initDb() {
   const userDataPath = app.getPath('userData')
@@ -113,225 +1164,386 @@ export async function initDb() {
   db = drizzle(client, { schema })
 
   try {
-    // Run migrations / init tables
+    const existing = await client.execute("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'projects'")
+    const isFreshDatabase = existing.rows.length === 0
+    const currentVersion = await getSchemaVersion(client)
+    const pending = isFreshDatabase ? [] : getPendingMigrations(currentVersion)
+
+    await initBackups(client, dbPath)
+    if (pending.length > 0) {
+      // Taken before anything touches the schema; refusing to migrate without it is deliberate
+      await createBackup('pre-migration')
+    }
+
+    // Creates any tables this database doesn't have yet, always in their current shape
     await client.executeMultiple(CREATE_TABLES_SQL)
 
-    // Schema migrations for existing databases
-    const migrations = [
-      "ALTER TABLE chapters ADD COLUMN content TEXT DEFAULT ''",
-      "ALTER TABLE chapters ADD COLUMN beats TEXT DEFAULT '[]'",
-      "ALTER TABLE chapters ADD COLUMN placeholder TEXT DEFAULT ''",
-      "ALTER TABLE chapters ADD COLUMN validator_notes TEXT DEFAULT ''",
-      "ALTER TABLE chapters ADD COLUMN draft_status TEXT DEFAULT 'draft'",
-      "ALTER TABLE chapters ADD COLUMN dense_summary TEXT DEFAULT ''",
-      "ALTER TABLE chapters ADD COLUMN context_snapshot TEXT DEFAULT ''",
-      "ALTER TABLE chapters ADD COLUMN context_tokens INTEGER DEFAULT 0",
-      "ALTER TABLE chapters ADD COLUMN last_prompt_hash TEXT DEFAULT ''",
-      "ALTER TABLE characters ADD COLUMN is_pov INTEGER DEFAULT 0",
-      "ALTER TABLE characters ADD COLUMN voice_diction TEXT DEFAULT ''",
-      "ALTER TABLE characters ADD COLUMN voice_forbidden TEXT DEFAULT ''",
-      "ALTER TABLE characters ADD COLUMN voice_metaphors TEXT DEFAULT ''",
-      "ALTER TABLE terminology ADD COLUMN category TEXT DEFAULT 'other'",
-      "ALTER TABLE terminology ADD COLUMN aliases TEXT DEFAULT ''",
-      "ALTER TABLE projects ADD COLUMN original_premise TEXT DEFAULT ''",
-      "ALTER TABLE projects ADD COLUMN story_bible TEXT DEFAULT '{}'",
-      "ALTER TABLE projects ADD COLUMN age_group TEXT DEFAULT ''"
-    ]
-    for (const sql of migrations) {
-      await client.execute(sql).catch(() => {
-        // Column likely already exists, ignore error
-      })
+    if (isFreshDatabase) {
+      await stampLatestVersion(client)
+    } else if (pending.length > 0) {
+      console.log(`Database at schema version ${currentVersion}, applying ${pending.length} migration(s)`)
+      await runMigrations(client, pending)
     }
+
+    await verifySchema(client)
   } catch (err) {
     console.error('Failed to initialize DB tables:', err)
     throw err
   }
 
   setupHandlers()
+  // Not awaited: the launch backup shouldn't hold up the window
+  void startBackups()
 }
 
 function setupHandlers() {
-  ipcMain.handle('db-save-project', async (_, { project, chapters, characters, terms }) => {
-    try {
-      console.log(`Saving project with ${chapters.length} chapters`)
-      if (chapters.length > 0) {
-        console.log(`First chapter content length: ${chapters[0].content?.length || 0}`)
-      }
+  // ============================================
+  // Incremental Save Handlers
+  // Each handler writes a single entity so a save costs as much as the edit, not the book
+  // ============================================
 
-      const projectId = project.id || 'default-project'
+  // Save project metadata and story bible
+  handle('db-upsert-project', async (_, project) => {
+    try {
+      const row = toProjectRow(project)
+      await db.insert(schema.projects).values(row).onConflictDoUpdate({
+        target: schema.projects.id,
+        set: { ...row, id: undefined }
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Project Error:', error)
+      throw error
+    }
+  })
 
-      // Wrap all operations in a transaction for atomicity
-      // If any operation fails, all changes are rolled back
+  // Save one part; `order` is its index among the project's parts
+  handle('db-upsert-part', async (_, { projectId, part, order }) => {
+    try {
+      const row = toPartRow(part, projectId, order)
       await db.transaction(async (tx) => {
-        // 1. Save Project
-        await tx.insert(schema.projects).values({
-          id: projectId,
-          title: project.title,
-          author: project.author,
-          genre: project.genre,
-          ageGroup: project.ageGroup || '',
-          logline: project.logline,
-          synopsis: project.synopsis,
-          originalPremise: project.originalPremise || '',
-          storyBible: JSON.stringify(project.storyBible || {}),
-          updatedAt: new Date()
-        }).onConflictDoUpdate({
-          target: schema.projects.id,
-          set: {
-            title: project.title,
-            author: project.author,
-            genre: project.genre,
-            ageGroup: project.ageGroup || '',
-            logline: project.logline,
-            synopsis: project.synopsis,
-            originalPremise: project.originalPremise || '',
-            storyBible: JSON.stringify(project.storyBible || {}),
-            updatedAt: new Date()
-          }
+        await tx.insert(schema.parts).values(row).onConflictDoUpdate({
+          target: schema.parts.id,
+          set: { ...row, id: undefined }
         })
+        await touchProject(tx, projectId)
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Part Error:', error)
+      throw error
+    }
+  })
 
-        // 2. Sync Chapters (Delete all for project and re-insert)
-        await tx.delete(schema.chapters).where(eq(schema.chapters.projectId, projectId))
-        
-        if (chapters.length > 0) {
-          await tx.insert(schema.chapters).values(chapters.map((c: any, index: number) => ({
-            id: c.id,
-            projectId: projectId,
-            title: c.title,
-            summary: c.summary,
-            status: c.status,
-            order: index,
-            content: c.content || '',
-            characterIds: JSON.stringify(c.characters || []),
-            beats: JSON.stringify(c.beats || []),
-            placeholder: c.placeholder || '',
-            validatorNotes: c.validatorNotes || '',
-            draftStatus: c.draftStatus || c.status || 'draft',
-            denseSummary: c.denseSummary || '',
-            contextSnapshot: c.contextSnapshot || '',
-            contextTokens: c.contextTokens || 0,
-            lastPromptHash: c.lastPromptHash || ''
-          })))
-        }
+  // Parts hold no prose, so they are deleted outright. Chapters still pointing at the
+  // part (including trashed ones) are left in no part; the renderer reassigns live ones.
+  handle('db-delete-part', async (_, partId) => {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.update(schema.chapters).set({ partId: null }).where(eq(schema.chapters.partId, partId))
+        await tx.delete(schema.parts).where(eq(schema.parts.id, partId))
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Part Error:', error)
+      throw error
+    }
+  })
 
-        // 3. Sync Characters
-        await tx.delete(schema.characters).where(eq(schema.characters.projectId, projectId))
-        
-        if (characters.length > 0) {
-          await tx.insert(schema.characters).values(characters.map((c: any) => ({
-            id: c.id,
-            projectId: projectId,
-            name: c.name,
-            role: c.role,
-            bio: c.bio,
-            traits: c.traits,
-            isPov: c.isPov ? 1 : 0,
-            voiceDiction: c.voiceDiction || '',
-            voiceForbidden: c.voiceForbidden || '',
-            voiceMetaphors: c.voiceMetaphors || ''
-          })))
+  // Save one chapter with its scenes, snapshotting the previous version if its text changed.
+  // A chapter with scenes takes its prose from them rather than from `content`.
+  handle('db-upsert-chapter', async (_, { projectId, chapter: incoming, order }) => {
+    try {
+      const chapter = incoming.scenes?.length
+        ? { ...incoming, content: joinSceneContent(incoming.scenes) }
+        : incoming
+      await db.transaction(async (tx) => {
+        const previous = await tx.query.chapters.findFirst({
+          where: eq(schema.chapters.id, chapter.id)
+        })
+        if (previous && hasRevisionableChanges(previous, chapter)) {
+          await snapshotChapter(tx, previous, 'save')
         }
+        const row = toChapterRow(chapter, projectId, order)
+        await tx.insert(schema.chapters).values(row).onConflictDoUpdate({
+          target: schema.chapters.id,
+          set: { ...row, id: undefined }
+        })
+        // Absent means an older renderer that doesn't know about scenes: leave them alone
+        if (chapter.scenes) await writeChapterScenes(tx, projectId, row.id, chapter.scenes)
+        await writeSearchEntries(tx, row.id, chapterSearchEntries(row))
+        await touchProject(tx, projectId)
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Chapter Error:', error)
+      throw error
+    }
+  })
+
+  // Deletes below move the entity to the trash
+  handle('db-delete-chapter', async (_, chapterId) => {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.update(schema.chapters).set({ deletedAt: new Date() }).where(eq(schema.chapters.id, chapterId))
+        await writeSearchEntries(tx, chapterId, [])
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Chapter Error:', error)
+      throw error
+    }
+  })
 
-        // 4. Sync Terminology
-        await tx.delete(schema.terminology).where(eq(schema.terminology.projectId, projectId))
-        
-        if (terms && terms.length > 0) {
-          await tx.insert(schema.terminology).values(terms.map((t: any) => ({
-            id: t.id,
-            projectId: projectId,
-            term: t.term,
-            definition: t.definition || '',
-            notes: t.notes || '',
-            chapterIds: JSON.stringify(t.chapters || []),
-            category: t.category || 'other',
-            aliases: t.aliases || ''
-          })))
+  // Rewrite chapter order after inserts, moves or sorts
+  handle('db-reorder-chapters', async (_, { projectId, chapterIds }) => {
+    try {
+      await db.transaction(async (tx) => {
+        for (const [index, id] of chapterIds.entries()) {
+          await tx.update(schema.chapters).set({ order: index }).where(eq(schema.chapters.id, id))
         }
+        await touchProject(tx, projectId)
       })
+      return { success: true }
+    } catch (error) {
+      console.error('Reorder Chapters Error:', error)
+      throw error
+    }
+  })
 
+  handle('db-upsert-character', async (_, { projectId, character }) => {
+    try {
+      const row = toCharacterRow(character, projectId)
+      await db.transaction(async (tx) => {
+        await tx.insert(schema.characters).values(row).onConflictDoUpdate({
+          target: schema.characters.id,
+          set: { ...row, id: undefined }
+        })
+        await writeSearchEntries(tx, row.id, characterSearchEntries(row))
+      })
       return { success: true }
     } catch (error) {
-      console.error('Save Error:', error)
+      console.error('Upsert Character Error:', error)
       throw error
     }
   })
 
-  ipcMain.handle('db-load-project', async (_, projectId = 'default-project') => {
+  handle('db-delete-character', async (_, characterId) => {
     try {
-      console.log('Loading project from DB:', projectId)
-      const project = await db.query.projects.findFirst({
-        where: eq(schema.projects.id, projectId)
+      await db.transaction(async (tx) => {
+        await tx.update(schema.characters).set({ deletedAt: new Date() }).where(eq(schema.characters.id, characterId))
+        await writeSearchEntries(tx, characterId, [])
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Character Error:', error)
+      throw error
+    }
+  })
+
+  handle('db-upsert-relationship', async (_, { projectId, relationship }) => {
+    try {
+      const row = toRelationshipRow(relationship, projectId)
+      await db.insert(schema.characterRelationships).values(row).onConflictDoUpdate({
+        target: schema.characterRelationships.id,
+        set: { ...row, id: undefined }
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Relationship Error:', error)
+      throw error
+    }
+  })
+
+  // Relationships are only an edge between two characters, so they skip the trash
+  handle('db-delete-relationship', async (_, relationshipId) => {
+    try {
+      await db.delete(schema.characterRelationships).where(eq(schema.characterRelationships.id, relationshipId))
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Relationship Error:', error)
+      throw error
+    }
+  })
+
+  handle('db-upsert-timeline-event', async (_, { projectId, event }) => {
+    try {
+      const row = toTimelineEventRow(event, projectId)
+      await db.insert(schema.timelineEvents).values(row).onConflictDoUpdate({
+        target: schema.timelineEvents.id,
+        set: { ...row, id: undefined }
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Timeline Event Error:', error)
+      throw error
+    }
+  })
+
+  // Events that used this one as their anchor are re-anchored by the renderer before it deletes
+  handle('db-delete-timeline-event', async (_, eventId) => {
+    try {
+      await db.delete(schema.timelineEvents).where(eq(schema.timelineEvents.id, eventId))
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Timeline Event Error:', error)
+      throw error
+    }
+  })
+
+  handle('db-upsert-comment', async (_, { projectId, comment }) => {
+    try {
+      const row = toCommentRow(comment, projectId)
+      await db.insert(schema.comments).values(row).onConflictDoUpdate({
+        target: schema.comments.id,
+        set: { ...row, id: undefined }
       })
-      console.log('Found project:', project)
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Comment Error:', error)
+      throw error
+    }
+  })
 
-      if (!project) return null
+  // Removing a whole thread is one call per comment; the anchor mark is dropped by the editor
+  handle('db-delete-comment', async (_, commentId) => {
+    try {
+      await db.delete(schema.comments).where(eq(schema.comments.id, commentId))
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Comment Error:', error)
+      throw error
+    }
+  })
 
-      const dbChapters = await db.query.chapters.findMany({
-        where: eq(schema.chapters.projectId, projectId),
-        orderBy: (chapters, { asc }) => [asc(chapters.order)]
+  handle('db-upsert-term', async (_, { projectId, term }) => {
+    try {
+      const row = toTermRow(term, projectId)
+      await db.transaction(async (tx) => {
+        await tx.insert(schema.terminology).values(row).onConflictDoUpdate({
+          target: schema.terminology.id,
+          set: { ...row, id: undefined }
+        })
+        await writeSearchEntries(tx, row.id, termSearchEntries(row))
       })
-      console.log('Found chapters:', dbChapters.length)
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Term Error:', error)
+      throw error
+    }
+  })
 
-      const dbCharacters = await db.query.characters.findMany({
-        where: eq(schema.characters.projectId, projectId)
+  handle('db-delete-term', async (_, termId) => {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.update(schema.terminology).set({ deletedAt: new Date() }).where(eq(schema.terminology.id, termId))
+        await writeSearchEntries(tx, termId, [])
       })
-      console.log('Found characters:', dbCharacters.length)
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Term Error:', error)
+      throw error
+    }
+  })
 
-      const dbTerms = await db.query.terminology.findMany({
-        where: eq(schema.terminology.projectId, projectId)
+  // ============================================
+  // Notes & Attachments
+  // ============================================
+
+  // Save a note's text, tags and links; attachments are written by their own handlers
+  handle('db-upsert-note', async (_, { projectId, note }) => {
+    try {
+      const row = toNoteRow(note, projectId)
+      await db.insert(schema.notes).values(row).onConflictDoUpdate({
+        target: schema.notes.id,
+        set: { ...row, id: undefined }
       })
-      console.log('Found terms:', dbTerms.length)
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Note Error:', error)
+      throw error
+    }
+  })
 
-      // Transform back to store format
-      return {
-        project: {
-            id: project.id,
-            title: project.title,
-            author: project.author,
-            genre: project.genre,
-            ageGroup: project.ageGroup || '',
-            logline: project.logline,
-            synopsis: project.synopsis,
-            originalPremise: project.originalPremise || '',
-            storyBible: parseJsonSafe(project.storyBible, {})
-        },
-        chapters: dbChapters.map(c => ({
-            id: c.id,
-            title: c.title,
-            summary: c.summary,
-            status: c.status,
-            content: c.content,
-            characters: parseJsonSafe<string[]>(c.characterIds, []),
-            beats: parseJsonSafe(c.beats, []),
-            placeholder: c.placeholder || '',
-            validatorNotes: c.validatorNotes || '',
-            draftStatus: c.draftStatus || c.status || 'draft',
-            denseSummary: c.denseSummary || '',
-            contextSnapshot: c.contextSnapshot || '',
-            contextTokens: Number(c.contextTokens || 0),
-            lastPromptHash: c.lastPromptHash || ''
-        })),
-        characters: dbCharacters.map(c => ({
-            id: c.id,
-            name: c.name,
-            role: c.role,
-            bio: c.bio,
-            traits: c.traits,
-            isPov: !!c.isPov,
-            voiceDiction: c.voiceDiction || '',
-            voiceForbidden: c.voiceForbidden || '',
-            voiceMetaphors: c.voiceMetaphors || ''
-        })),
-        terms: dbTerms.map(t => ({
-            id: t.id,
-            term: t.term,
-            definition: t.definition,
-            notes: t.notes,
-            chapters: parseJsonSafe<string[]>(t.chapterIds, []),
-            category: t.category || 'other',
-            aliases: t.aliases || ''
-        }))
+  // Moves the note to the trash; its attachment files stay until it is purged
+  handle('db-delete-note', async (_, noteId) => {
+    try {
+      await db.update(schema.notes).set({ deletedAt: new Date() }).where(eq(schema.notes.id, noteId))
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Note Error:', error)
+      throw error
+    }
+  })
+
+  // Copy files chosen by the user into the project and attach them to a note.
+  // Returns the new attachments (none if the dialog was cancelled).
+  handle('note-add-attachments', async (event, { projectId, noteId }) => {
+    try {
+      const note = await db.query.notes.findFirst({ where: eq(schema.notes.id, noteId) })
+      if (!note || note.projectId !== projectId) throw new Error(`Note ${noteId} not found in this project`)
+
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const options = {
+        title: 'Attach Files',
+        properties: ['openFile' as const, 'multiSelections' as const]
       }
+      const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options)
+      if (result.canceled || result.filePaths.length === 0) return []
+
+      const attachments: NoteAttachment[] = []
+      for (const filePath of result.filePaths) {
+        const id = crypto.randomUUID()
+        const { storedName, sizeBytes } = await storeAttachment(projectId, id, filePath)
+        const [row] = await db.insert(schema.noteAttachments).values({
+          id,
+          noteId,
+          projectId,
+          fileName: path.basename(filePath),
+          storedName,
+          sizeBytes
+        }).returning()
+        attachments.push(fromAttachmentRow(row))
+      }
+      return attachments
+    } catch (error) {
+      console.error('Add Attachments Error:', error)
+      throw error
+    }
+  })
+
+  // Open an attachment's stored copy with the system's default app
+  handle('note-open-attachment', async (_, attachmentId) => {
+    try {
+      const row = await db.query.noteAttachments.findFirst({ where: eq(schema.noteAttachments.id, attachmentId) })
+      if (!row) throw new Error(`Attachment ${attachmentId} not found`)
+      const failure = await shell.openPath(getAttachmentPath(row.projectId, row.storedName))
+      if (failure) throw new Error(failure)
+      return { success: true }
+    } catch (error) {
+      console.error('Open Attachment Error:', error)
+      throw error
+    }
+  })
+
+  // Attachments skip the trash: removing one from a note deletes the stored copy
+  handle('note-delete-attachment', async (_, attachmentId) => {
+    try {
+      const row = await db.query.noteAttachments.findFirst({ where: eq(schema.noteAttachments.id, attachmentId) })
+      if (!row) return { success: true }
+      await db.delete(schema.noteAttachments).where(eq(schema.noteAttachments.id, attachmentId))
+      await removeAttachments([row])
+      return { success: true }
+    } catch (error) {
+      console.error('Delete Attachment Error:', error)
+      throw error
+    }
+  })
+
+  handle('db-load-project', async (_, projectId) => {
+    try {
+      console.log('Loading project from DB:', projectId)
+      return await readProject(projectId)
     } catch (error) {
       console.error('Load Error:', error)
       throw error
@@ -339,16 +1551,20 @@ function setupHandlers() {
   })
 
   // List all projects
-  ipcMain.handle('db-list-projects', async () => {
+  handle('db-list-projects', async () => {
     try {
       const projects = await db.query.projects.findMany({
+        where: isNull(schema.projects.deletedAt),
         orderBy: (projects, { desc }) => [desc(projects.updatedAt)]
       })
       return projects.map(p => ({
         id: p.id,
         title: p.title,
-        author: p.author,
-        updatedAt: p.updatedAt
+        author: p.author || '',
+        updatedAt: p.updatedAt,
+        parentProjectId: p.parentProjectId || null,
+        forkedAt: p.forkedAt,
+        forkChapterId: p.forkChapterId || null
       }))
     } catch (error) {
       console.error('List Projects Error:', error)
@@ -356,14 +1572,13 @@ function setupHandlers() {
     }
   })
 
-  // Delete a project
-  ipcMain.handle('db-delete-project', async (_, projectId: string) => {
+  // Move a project (with everything in it) to the trash
+  handle('db-delete-project', async (_, projectId) => {
     try {
-      // Delete related data first (cascade should handle but be explicit)
-      await db.delete(schema.chapters).where(eq(schema.chapters.projectId, projectId))
-      await db.delete(schema.characters).where(eq(schema.characters.projectId, projectId))
-      await db.delete(schema.terminology).where(eq(schema.terminology.projectId, projectId))
-      await db.delete(schema.projects).where(eq(schema.projects.id, projectId))
+      await db.transaction(async (tx) => {
+        await tx.update(schema.projects).set({ deletedAt: new Date() }).where(eq(schema.projects.id, projectId))
+        await tx.run(sql`DELETE FROM search_index WHERE project_id = ${projectId}`)
+      })
       return { success: true }
     } catch (error) {
       console.error('Delete Project Error:', error)
@@ -371,75 +1586,654 @@ function setupHandlers() {
     }
   })
 
+  // ============================================
+  // Trash Handlers
+  // ============================================
+
+  // Everything in the trash, newest first. Children of a trashed project are
+  // represented by the project itself rather than listed one by one.
+  handle('db-list-trash', async () => {
+    try {
+      const allProjects = await db.select({
+        id: schema.projects.id,
+        title: schema.projects.title,
+        deletedAt: schema.projects.deletedAt
+      }).from(schema.projects)
+      const liveProjectTitles = new Map(allProjects.filter(p => !p.deletedAt).map(p => [p.id, p.title]))
+
+      const items: { kind: TrashKind; id: string; projectId: string; projectTitle: string; title: string; deletedAt: Date }[] = []
+      for (const p of allProjects) {
+        if (p.deletedAt) items.push({ kind: 'project', id: p.id, projectId: p.id, projectTitle: p.title, title: p.title, deletedAt: p.deletedAt })
+      }
+
+      const chapters = await db.select({ id: schema.chapters.id, projectId: schema.chapters.projectId, title: schema.chapters.title, deletedAt: schema.chapters.deletedAt })
+        .from(schema.chapters).where(isNotNull(schema.chapters.deletedAt))
+      const characters = await db.select({ id: schema.characters.id, projectId: schema.characters.projectId, title: schema.characters.name, deletedAt: schema.characters.deletedAt })
+        .from(schema.characters).where(isNotNull(schema.characters.deletedAt))
+      const terms = await db.select({ id: schema.terminology.id, projectId: schema.terminology.projectId, title: schema.terminology.term, deletedAt: schema.terminology.deletedAt })
+        .from(schema.terminology).where(isNotNull(schema.terminology.deletedAt))
+      const notes = await db.select({ id: schema.notes.id, projectId: schema.notes.projectId, title: schema.notes.title, deletedAt: schema.notes.deletedAt })
+        .from(schema.notes).where(isNotNull(schema.notes.deletedAt))
+
+      const children: [TrashKind, typeof chapters][] = [['chapter', chapters], ['character', characters], ['term', terms], ['note', notes]]
+      for (const [kind, rows] of children) {
+        for (const row of rows) {
+          const projectTitle = liveProjectTitles.get(row.projectId)
+          if (projectTitle === undefined || !row.deletedAt) continue
+          items.push({ kind, id: row.id, projectId: row.projectId, projectTitle, title: row.title, deletedAt: row.deletedAt })
+        }
+      }
+
+      return items
+        .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+        .map(item => ({ ...item, deletedAt: item.deletedAt.toISOString() }))
+    } catch (error) {
+      console.error('List Trash Error:', error)
+      throw error
+    }
+  })
+
+  // Bring an item back; returns the project it belongs to
+  handle('db-restore-trash-item', async (_, { kind, id }) => {
+    try {
+      if (!(kind in TRASH_TABLES)) throw new Error(`Unknown trash item kind: ${kind}`)
+      const projectId = await db.transaction(tx => restoreTrashItem(tx, kind, id))
+      return { projectId }
+    } catch (error) {
+      console.error('Restore Trash Item Error:', error)
+      throw error
+    }
+  })
+
+  handle('db-purge-trash-item', async (_, { kind, id }) => {
+    try {
+      if (!(kind in TRASH_TABLES)) throw new Error(`Unknown trash item kind: ${kind}`)
+      const cleanup = await db.transaction(tx => purgeTrashItem(tx, kind, id))
+      await removeAttachmentFiles(cleanup)
+      return { success: true }
+    } catch (error) {
+      console.error('Purge Trash Item Error:', error)
+      throw error
+    }
+  })
+
+  // Permanently remove everything trashed more than `days` days ago. Returns the number purged.
+  handle('db-purge-expired-trash', async (_, days) => {
+    try {
+      const cutoff = new Date(Date.now() - Math.max(0, Number(days) || 0) * 24 * 60 * 60 * 1000)
+      let purged = 0
+      const cleanup: AttachmentCleanup = []
+      await db.transaction(async (tx) => {
+        for (const [kind, table] of Object.entries(TRASH_TABLES) as [TrashKind, typeof TRASH_TABLES[TrashKind]][]) {
+          const expired = await tx.select({ id: table.id }).from(table)
+            .where(and(isNotNull(table.deletedAt), lt(table.deletedAt, cutoff)))
+          for (const { id } of expired) {
+            cleanup.push(...await purgeTrashItem(tx, kind, id))
+            purged++
+          }
+        }
+      })
+      await removeAttachmentFiles(cleanup)
+      if (purged > 0) console.log(`Purged ${purged} expired trash item(s)`)
+      return { purged }
+    } catch (error) {
+      console.error('Purge Expired Trash Error:', error)
+      throw error
+    }
+  })
+
+  // ============================================
+  // Project Bundle (.muse) Export / Import
+  // ============================================
+
+  // Write one project to a .muse file chosen by the user. Returns null if cancelled.
+  handle('project-export', async (event, projectId) => {
+    try {
+      const data = await readProject(projectId)
+      if (!data) throw new Error(`Project ${projectId} not found`)
+
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const safeName = (data.project.title || 'project').replace(/[\\/:*?"<>|]+/g, '').trim() || 'project'
+      const options = {
+        title: 'Export Project',
+        defaultPath: `${safeName}.${MUSE_FILE_EXTENSION}`,
+        filters: [{ name: 'Muse Project', extensions: [MUSE_FILE_EXTENSION] }]
+      }
+      const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options)
+      if (result.canceled || !result.filePath) return null
+
+      await fs.writeFile(result.filePath, JSON.stringify(createBundle({ ...data, prompts: await readProjectPrompts(projectId) }), null, 2), 'utf-8')
+      return { filePath: result.filePath }
+    } catch (error) {
+      console.error('Export Project Error:', error)
+      throw error
+    }
+  })
+
+  // Read a .muse file chosen by the user into a new project. Returns null if cancelled.
+  handle('project-import', async (event) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const options = {
+        title: 'Import Project',
+        properties: ['openFile' as const],
+        filters: [{ name: 'Muse Project', extensions: [MUSE_FILE_EXTENSION] }]
+      }
+      const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options)
+      if (result.canceled || result.filePaths.length === 0) return null
+
+      const parsed = parseBundle(await fs.readFile(result.filePaths[0], 'utf-8'))
+      const bundle = remapBundleIds(parsed, {
+        projects: await findExistingIds(schema.projects, parsed.project.id ? [parsed.project.id] : []),
+        parts: await findExistingIds(schema.parts, parsed.parts.map(p => p.id)),
+        chapters: await findExistingIds(schema.chapters, parsed.chapters.map(c => c.id)),
+        scenes: await findExistingIds(schema.scenes, parsed.chapters.flatMap(c => c.scenes.map((s: any) => s.id))),
+        characters: await findExistingIds(schema.characters, parsed.characters.map(c => c.id)),
+        relationships: await findExistingIds(schema.characterRelationships, parsed.relationships.map(r => r.id)),
+        terms: await findExistingIds(schema.terminology, parsed.terms.map(t => t.id)),
+        timeline: await findExistingIds(schema.timelineEvents, parsed.timeline.map(e => e.id)),
+        notes: await findExistingIds(schema.notes, parsed.notes.map(n => n.id)),
+        comments: await findExistingIds(schema.comments, parsed.comments.map(c => c.id))
+      })
+      const projectId: string = bundle.project.id
+
+      await db.transaction(async (tx) => {
+        await tx.insert(schema.projects).values(toProjectRow(bundle.project))
+        for (const [index, part] of bundle.parts.entries()) {
+          await tx.insert(schema.parts).values(toPartRow(part, projectId, index))
+        }
+        for (const [index, chapter] of bundle.chapters.entries()) {
+          const row = toChapterRow(chapter, projectId, index)
+          await tx.insert(schema.chapters).values(row)
+          await writeChapterScenes(tx, projectId, row.id, chapter.scenes)
+          await writeSearchEntries(tx, row.id, chapterSearchEntries(row))
+        }
+        for (const character of bundle.characters) {
+          const row = toCharacterRow(character, projectId)
+          await tx.insert(schema.characters).values(row)
+          await writeSearchEntries(tx, row.id, characterSearchEntries(row))
+        }
+        for (const relationship of bundle.relationships) {
+          await tx.insert(schema.characterRelationships).values(toRelationshipRow(relationship, projectId))
+        }
+        for (const term of bundle.terms) {
+          const row = toTermRow(term, projectId)
+          await tx.insert(schema.terminology).values(row)
+          await writeSearchEntries(tx, row.id, termSearchEntries(row))
+        }
+        for (const event of bundle.timeline) {
+          await tx.insert(schema.timelineEvents).values(toTimelineEventRow(event, projectId))
+        }
+        for (const note of bundle.notes) {
+          await tx.insert(schema.notes).values(toNoteRow(note, projectId))
+        }
+        for (const comment of bundle.comments) {
+          await tx.insert(schema.comments).values(toCommentRow(comment, projectId))
+        }
+        await copyProjectPrompts(tx, bundle.prompts, projectId)
+      })
+
+      console.log(`Imported project ${projectId}: ${bundle.parts.length} parts, ${bundle.chapters.length} chapters, ${bundle.characters.length} characters, ${bundle.terms.length} terms, ${bundle.notes.length} notes`)
+      return { projectId, title: bundle.project.title as string }
+    } catch (error) {
+      console.error('Import Project Error:', error)
+      throw error
+    }
+  })
+
+  // ============================================
+  // Project Forks
+  // ============================================
+
+  // Deep-copy a project under new IDs as an alternate draft. Returns the new project's ID.
+  handle('db-fork-project', async (_, { projectId, title, forkChapterId }) => {
+    try {
+      const source = await readProject(projectId)
+      if (!source) throw new Error(`Project ${projectId} not found`)
+
+      const newProjectId = crypto.randomUUID()
+      const partIds = new Map(source.parts.map(p => [p.id, crypto.randomUUID()]))
+      const chapterIds = new Map(source.chapters.map(c => [c.id, crypto.randomUUID()]))
+      const characterIds = new Map(source.characters.map(c => [c.id, crypto.randomUUID()]))
+      const termIds = new Map(source.terms.map(t => [t.id, crypto.randomUUID()]))
+      const noteIds = new Map(source.notes.map(n => [n.id, crypto.randomUUID()]))
+      const prompts = await readProjectPrompts(projectId)
+
+      const sourceAttachments = await db.query.noteAttachments.findMany({
+        where: and(eq(schema.noteAttachments.projectId, projectId), inArray(schema.noteAttachments.noteId, [...noteIds.keys()]))
+      })
+      // Attachment files are copied before the rows go in; a failed fork removes the copies again
+      try {
+        const attachmentRows: (typeof schema.noteAttachments.$inferInsert)[] = []
+        for (const attachment of sourceAttachments) {
+          const id = crypto.randomUUID()
+          const storedName = await copyAttachment(projectId, attachment.storedName, newProjectId, id, attachment.fileName)
+          attachmentRows.push({ ...attachment, id, noteId: noteIds.get(attachment.noteId)!, projectId: newProjectId, storedName })
+        }
+
+        await db.transaction(async (tx) => {
+          await tx.insert(schema.projects).values({
+            ...toProjectRow({ ...source.project, id: newProjectId, title }),
+            parentProjectId: projectId,
+            forkedAt: new Date(),
+            forkChapterId: forkChapterId || null
+          })
+          for (const [index, part] of source.parts.entries()) {
+            await tx.insert(schema.parts).values(toPartRow({ ...part, id: partIds.get(part.id) }, newProjectId, index))
+          }
+          for (const [index, chapter] of source.chapters.entries()) {
+            const scenes = (chapter.scenes || []).map(scene => ({
+              ...scene,
+              id: crypto.randomUUID(),
+              povCharacterId: scene.povCharacterId ? characterIds.get(scene.povCharacterId) || scene.povCharacterId : undefined
+            }))
+            const row = toChapterRow({
+              ...chapter,
+              id: chapterIds.get(chapter.id),
+              characters: (chapter.characters || []).map(id => characterIds.get(id) || id),
+              partId: chapter.partId ? partIds.get(chapter.partId) : undefined,
+              // Re-joined so the scene breaks carry the new scene IDs
+              content: scenes.length ? joinSceneContent(scenes) : chapter.content,
+              originChapterId: chapter.id
+            }, newProjectId, index)
+            await tx.insert(schema.chapters).values(row)
+            await writeChapterScenes(tx, newProjectId, row.id, scenes)
+            await writeSearchEntries(tx, row.id, chapterSearchEntries(row))
+          }
+          for (const character of source.characters) {
+            const row = toCharacterRow({ ...character, id: characterIds.get(character.id) }, newProjectId)
+            await tx.insert(schema.characters).values(row)
+            await writeSearchEntries(tx, row.id, characterSearchEntries(row))
+          }
+          for (const relationship of source.relationships) {
+            await tx.insert(schema.characterRelationships).values(toRelationshipRow({
+              ...relationship,
+              id: crypto.randomUUID(),
+              fromId: characterIds.get(relationship.fromId),
+              toId: characterIds.get(relationship.toId),
+              changesInChapterId: relationship.changesInChapterId ? chapterIds.get(relationship.changesInChapterId) : undefined
+            }, newProjectId))
+          }
+          for (const term of source.terms) {
+            const row = toTermRow({
+              ...term,
+              id: termIds.get(term.id),
+              chapters: (term.chapters || []).map(id => chapterIds.get(id) || id)
+            }, newProjectId)
+            await tx.insert(schema.terminology).values(row)
+            await writeSearchEntries(tx, row.id, termSearchEntries(row))
+          }
+          const eventIds = new Map(source.timeline.map(e => [e.id, crypto.randomUUID()]))
+          for (const event of source.timeline) {
+            await tx.insert(schema.timelineEvents).values(toTimelineEventRow({
+              ...event,
+              id: eventIds.get(event.id),
+              anchorEventId: event.anchorEventId ? eventIds.get(event.anchorEventId) : undefined,
+              chapters: event.chapters.map(id => chapterIds.get(id) || id),
+              characters: event.characters.map(id => characterIds.get(id) || id)
+            }, newProjectId))
+          }
+          for (const note of source.notes) {
+            await tx.insert(schema.notes).values(toNoteRow({
+              ...note,
+              id: noteIds.get(note.id),
+              chapters: note.chapters.map(id => chapterIds.get(id) || id),
+              characters: note.characters.map(id => characterIds.get(id) || id),
+              terms: note.terms.map(id => termIds.get(id) || id)
+            }, newProjectId))
+          }
+          for (const row of attachmentRows) {
+            await tx.insert(schema.noteAttachments).values(row)
+          }
+          // Anchor IDs live in the chapter text, which is copied as is
+          const commentIds = new Map(source.comments.map(c => [c.id, crypto.randomUUID()]))
+          for (const comment of source.comments) {
+            await tx.insert(schema.comments).values(toCommentRow({
+              ...comment,
+              id: commentIds.get(comment.id),
+              chapterId: chapterIds.get(comment.chapterId),
+              parentId: comment.parentId ? commentIds.get(comment.parentId) : undefined
+            }, newProjectId))
+          }
+          await copyProjectPrompts(tx, prompts, newProjectId)
+        })
+      } catch (error) {
+        await removeProjectAttachments(newProjectId)
+        throw error
+      }
+
+      console.log(`Forked project ${projectId} -> ${newProjectId} (${source.chapters.length} chapters)`)
+      return { projectId: newProjectId }
+    } catch (error) {
+      console.error('Fork Project Error:', error)
+      throw error
+    }
+  })
+
+  // ============================================
+  // Full-Text Search
+  // ============================================
+
+  // Ranked matches across chapters, characters and terms of one project
+  handle('db-search', async (_, { projectId, query, limit = 50 }) => {
+    try {
+      const match = toFtsQuery(query || '')
+      if (!match) return []
+      // bm25 weights: title hits count double body hits
+      const result = await db.all<{
+        kind: SearchResult['kind']
+        field: SearchResult['field']
+        entity_id: string
+        title: string
+        snippet: string
+        rank: number
+      }>(sql`
+        SELECT kind, field, entity_id, title,
+          snippet(search_index, 5, ${SNIPPET_OPEN}, ${SNIPPET_CLOSE}, '…', 16) AS snippet,
+          bm25(search_index, 0, 0, 0, 0, 2.0, 1.0) AS rank
+        FROM search_index
+        WHERE search_index MATCH ${match} AND project_id = ${projectId}
+        ORDER BY rank
+        LIMIT ${limit}
+      `)
+      return result.map(r => ({
+        kind: r.kind,
+        field: r.field,
+        entityId: r.entity_id,
+        title: r.title,
+        snippet: formatSnippet(r.snippet || ''),
+        rank: r.rank
+      }))
+    } catch (error) {
+      console.error('Search Error:', error)
+      throw error
+    }
+  })
+
+  // ============================================
+  // Writing Sessions
+  // ============================================
+
+  // Sessions are written as they grow, so an open session is saved after every recorded edit
+  handle('db-upsert-writing-session', async (_, { projectId, session }) => {
+    try {
+      const row = toWritingSessionRow(session, projectId)
+      await db.insert(schema.writingSessions).values(row).onConflictDoUpdate({
+        target: schema.writingSessions.id,
+        set: { ...row, id: undefined }
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Upsert Writing Session Error:', error)
+      throw error
+    }
+  })
+
+  // All sessions of a project, oldest first. Forks and imports start with no history.
+  handle('db-list-writing-sessions', async (_, projectId) => {
+    try {
+      const rows = await db.query.writingSessions.findMany({
+        where: eq(schema.writingSessions.projectId, projectId),
+        orderBy: (sessions, { asc }) => [asc(sessions.startedAt)]
+      })
+      return rows.map(fromWritingSessionRow)
+    } catch (error) {
+      console.error('List Writing Sessions Error:', error)
+      throw error
+    }
+  })
+
+  // ============================================
+  // AI Call Log
+  // ============================================
+
+  handle('db-insert-ai-call', async (_, { projectId, call }) => {
+    try {
+      await db.insert(schema.aiCalls).values(toAiCallRow(call, projectId))
+      return { success: true }
+    } catch (error) {
+      console.error('Insert AI Call Error:', error)
+      throw error
+    }
+  })
+
+  // A project's calls, newest first
+  handle('db-list-ai-calls', async (_, projectId) => {
+    try {
+      const rows = await db.query.aiCalls.findMany({
+        where: eq(schema.aiCalls.projectId, projectId),
+        orderBy: (calls, { desc }) => [desc(calls.createdAt)]
+      })
+      return rows.map(fromAiCallRow)
+    } catch (error) {
+      console.error('List AI Calls Error:', error)
+      throw error
+    }
+  })
+
+  // What a project's calls have cost since a date; calls without a known cost count as free
+  handle('db-ai-spend', async (_, { projectId, since }) => {
+    try {
+      const [row] = await db.select({ total: sql<number>`coalesce(sum(${schema.aiCalls.cost}), 0)` })
+        .from(schema.aiCalls)
+        .where(and(eq(schema.aiCalls.projectId, projectId), gte(schema.aiCalls.createdAt, new Date(since))))
+      return Number(row?.total || 0)
+    } catch (error) {
+      console.error('AI Spend Error:', error)
+      throw error
+    }
+  })
+
+  // ============================================
+  // Chapter Revision Handlers
+  // ============================================
+
+  // List revisions for a chapter, newest first (content omitted to keep the payload small)
+  handle('db-list-chapter-revisions', async (_, chapterId) => {
+    try {
+      const revisions = await db.query.chapterRevisions.findMany({
+        where: eq(schema.chapterRevisions.chapterId, chapterId),
+        orderBy: (revisions) => [desc(revisions.createdAt), desc(sql`rowid`)],
+        columns: { content: false, beats: false }
+      })
+      return revisions.map(r => ({
+        id: r.id,
+        chapterId: r.chapterId,
+        title: r.title || '',
+        summary: r.summary || '',
+        wordCount: Number(r.wordCount || 0),
+        source: (r.source || 'save') as ChapterRevision['source'],
+        createdAt: r.createdAt?.toISOString() || new Date().toISOString()
+      }))
+    } catch (error) {
+      console.error('List Chapter Revisions Error:', error)
+      throw error
+    }
+  })
+
+  // Load a single revision including its prose and beats
+  handle('db-load-chapter-revision', async (_, revisionId) => {
+    try {
+      const r = await db.query.chapterRevisions.findFirst({
+        where: eq(schema.chapterRevisions.id, revisionId)
+      })
+      if (!r) return null
+      return {
+        id: r.id,
+        chapterId: r.chapterId,
+        title: r.title || '',
+        summary: r.summary || '',
+        content: r.content || '',
+        beats: parseJsonSafe<StoryBeat[]>(r.beats, []),
+        wordCount: Number(r.wordCount || 0),
+        source: (r.source || 'save') as ChapterRevision['source'],
+        createdAt: r.createdAt?.toISOString() || new Date().toISOString()
+      }
+    } catch (error) {
+      console.error('Load Chapter Revision Error:', error)
+      throw error
+    }
+  })
+
+  // Restore a revision onto its chapter. The current state is snapshotted first so a restore can be undone.
+  handle('db-restore-chapter-revision', async (_, revisionId) => {
+    try {
+      const revision = await db.query.chapterRevisions.findFirst({
+        where: eq(schema.chapterRevisions.id, revisionId)
+      })
+      if (!revision) throw new Error(`Revision ${revisionId} not found`)
+
+      const restored = await db.transaction(async (tx) => {
+        const current = await tx.query.chapters.findFirst({
+          where: eq(schema.chapters.id, revision.chapterId)
+        })
+        if (!current) throw new Error('The chapter for this revision no longer exists')
+        await snapshotChapter(tx, current, 'restore')
+        const currentScenes = await tx.query.scenes.findMany({
+          where: eq(schema.scenes.chapterId, current.id),
+          orderBy: (scenes, { asc }) => [asc(scenes.order)]
+        })
+        const restoredScenes = splitSceneContent(revision.content || '', currentScenes.map(fromSceneRow))
+        const content = restoredScenes.length ? joinSceneContent(restoredScenes) : revision.content || ''
+        await tx.update(schema.chapters).set({
+          content,
+          summary: revision.summary || '',
+          beats: revision.beats || '[]'
+        }).where(eq(schema.chapters.id, revision.chapterId))
+        if (restoredScenes.length) await writeChapterScenes(tx, current.projectId, current.id, restoredScenes)
+        await writeSearchEntries(tx, current.id, chapterSearchEntries({
+          ...current,
+          content,
+          summary: revision.summary
+        }))
+        return { content, scenes: restoredScenes }
+      })
+
+      return {
+        chapterId: revision.chapterId,
+        content: restored.content,
+        summary: revision.summary || '',
+        beats: parseJsonSafe<StoryBeat[]>(revision.beats, []),
+        scenes: restored.scenes
+      }
+    } catch (error) {
+      console.error('Restore Chapter Revision Error:', error)
+      throw error
+    }
+  })
+
   // ============================================
   // Improved Prompts (GEPA) Handlers
   // ============================================
 
-  // Save or update an improved prompt
-  ipcMain.handle('db-save-improved-prompt', async (_, promptData: {
-    id: string
-    name: string
-    basePromptKey: string
-    originalPrompt: string
-    improvedPrompt: string
-    score: number
-    mutations: string[]
-  }) => {
-    try {
-      await db.insert(schema.improvedPrompts).values({
-        id: promptData.id,
-        name: promptData.name,
-        basePromptKey: promptData.basePromptKey,
-        originalPrompt: promptData.originalPrompt,
-        improvedPrompt: promptData.improvedPrompt,
-        score: Math.round(promptData.score * 100),
-        mutations: JSON.stringify(promptData.mutations),
-        updatedAt: new Date()
-      }).onConflictDoUpdate({
-        target: schema.improvedPrompts.basePromptKey,
-        set: {
-          improvedPrompt: promptData.improvedPrompt,
-          score: Math.round(promptData.score * 100),
-          mutations: JSON.stringify(promptData.mutations),
+  // Save an optimization result as a new version of the override for its prompt key and
+  // scope, and pin it. Returns the override with its new active version.
+  handle('db-save-improved-prompt', async (_, promptData) => {
+    try {
+      const scope = promptData.scope || 'global'
+      // Global overrides have no scope value; genre names match case-insensitively
+      const scopeValue = scope === 'global' ? ''
+        : scope === 'genre' ? (promptData.scopeValue || '').trim().toLowerCase()
+        : promptData.scopeValue
+      if (scope !== 'global' && !scopeValue) throw new Error(`A ${scope} prompt override needs a ${scope === 'genre' ? 'genre' : 'project'}`)
+
+      const saved = await db.transaction(async (tx) => {
+        const existing = await tx.query.improvedPrompts.findFirst({
+          where: and(
+            eq(schema.improvedPrompts.basePromptKey, promptData.basePromptKey),
+            eq(schema.improvedPrompts.scope, scope),
+            eq(schema.improvedPrompts.scopeValue, scopeValue)
+          )
+        })
+        const promptId = existing?.id || promptData.id
+        const version = await addPromptVersion(tx, promptId, promptData)
+        const active = {
+          improvedPrompt: version.improvedPrompt,
+          score: version.score,
+          mutations: version.mutations,
+          activeVersionId: version.id,
           updatedAt: new Date()
         }
+        if (existing) {
+          await tx.update(schema.improvedPrompts).set(active).where(eq(schema.improvedPrompts.id, promptId))
+        } else {
+          await tx.insert(schema.improvedPrompts).values({
+            id: promptId,
+            name: promptData.name,
+            basePromptKey: promptData.basePromptKey,
+            scope,
+            scopeValue,
+            originalPrompt: promptData.originalPrompt,
+            ...active
+          })
+        }
+        return await tx.query.improvedPrompts.findFirst({ where: eq(schema.improvedPrompts.id, promptId) })
       })
-      return { success: true }
+      return saved ? fromPromptRow(saved) : null
     } catch (error) {
       console.error('Save Improved Prompt Error:', error)
       throw error
     }
   })
 
-  // Load all improved prompts
-  ipcMain.handle('db-load-improved-prompts', async () => {
+  // Load all improved prompts across every scope
+  handle('db-load-improved-prompts', async () => {
     try {
       const prompts = await db.query.improvedPrompts.findMany()
-      return prompts.map(p => ({
-        id: p.id,
-        name: p.name,
-        basePromptKey: p.basePromptKey,
-        originalPrompt: p.originalPrompt,
-        improvedPrompt: p.improvedPrompt,
-        score: (p.score || 0) / 100,
-        mutations: JSON.parse(p.mutations || '[]'),
-        createdAt: p.createdAt?.toISOString() || new Date().toISOString(),
-        updatedAt: p.updatedAt?.toISOString() || new Date().toISOString()
-      }))
+      return prompts.map(fromPromptRow)
     } catch (error) {
       console.error('Load Improved Prompts Error:', error)
       throw error
     }
   })
 
-  // Delete an improved prompt (reset to original)
-  ipcMain.handle('db-delete-improved-prompt', async (_, basePromptKey: string) => {
+  // Delete one scope's override (the next most specific one takes over)
+  handle('db-delete-improved-prompt', async (_, { basePromptKey, scope, scopeValue }) => {
     try {
-      await db.delete(schema.improvedPrompts).where(eq(schema.improvedPrompts.basePromptKey, basePromptKey))
+      await db.transaction(tx => deletePromptOverrides(tx, and(
+        eq(schema.improvedPrompts.basePromptKey, basePromptKey),
+        eq(schema.improvedPrompts.scope, scope),
+        eq(schema.improvedPrompts.scopeValue, scopeValue)
+      )))
       return { success: true }
     } catch (error) {
       console.error('Delete Improved Prompt Error:', error)
       throw error
     }
   })
+
+  // Every version of one override, oldest first
+  handle('db-list-prompt-versions', async (_, promptId) => {
+    try {
+      const versions = await db.query.promptVersions.findMany({
+        where: eq(schema.promptVersions.promptId, promptId),
+        orderBy: (versions) => [versions.version]
+      })
+      return versions.map(fromPromptVersionRow)
+    } catch (error) {
+      console.error('List Prompt Versions Error:', error)
+      throw error
+    }
+  })
+
+  // Make an earlier (or later) version the active one. Returns the updated override.
+  handle('db-pin-prompt-version', async (_, versionId) => {
+    try {
+      const version = await db.query.promptVersions.findFirst({ where: eq(schema.promptVersions.id, versionId) })
+      if (!version) throw new Error(`Prompt version ${versionId} not found`)
+      await db.update(schema.improvedPrompts).set({
+        improvedPrompt: version.improvedPrompt,
+        score: version.score,
+        mutations: version.mutations,
+        activeVersionId: version.id,
+        updatedAt: new Date()
+      }).where(eq(schema.improvedPrompts.id, version.promptId))
+      const prompt = await db.query.improvedPrompts.findFirst({ where: eq(schema.improvedPrompts.id, version.promptId) })
+      if (!prompt) throw new Error(`Prompt ${version.promptId} not found`)
+      return fromPromptRow(prompt)
+    } catch (error) {
+      console.error('Pin Prompt Version Error:', error)
+      throw error
+    }
+  })
 }
@@ -0,0 +1,258 @@
+/**
+ * The one list of IPC channels the renderer may use, with the payload each takes and
+ * what it resolves to. The preload exposes only these channels, and the main process
+ * checks every payload against it (see ipc.ts).
+ *
+ * Entity shapes are the renderer store types: the main process maps DB rows to and
+ * from them, so they are the wire format too.
+ */
+import type {
+  BookMetadata,
+  StoryBible,
+  StoryBeat,
+  StoryPart,
+  StoryChapter,
+  StoryScene,
+  Character,
+  CharacterRelationship,
+  StoryTerm,
+  TimelineEvent,
+  StoryNote,
+  NoteAttachment,
+  StoryComment,
+  ProjectListItem,
+  ProjectSnapshot,
+  ChapterRevision,
+  TrashItem,
+  SearchResult
+} from '../src/stores/project'
+import type { StoredPrompt, PromptVersion, PromptScope, PromptKey } from '../src/stores/prompts'
+import type { BackupInfo, BackupSettings } from '../src/stores/backups'
+import type { WritingSession } from '../src/stores/sessions'
+import type { AiCallRecord } from '../src/stores/aiCalls'
+import type { SecretStatus } from '../src/stores/settings'
+import type { AiChatRequest, AiUsage, AiFailure } from '../src/services/ai'
+import type { AiProvider } from '../src/services/providers'
+import type { ModelPricing } from '../src/services/tokens'
+
+export interface Success {
+  success: true
+}
+
+export type ProjectRecord = BookMetadata & { id: string; storyBible: StoryBible }
+
+export interface TrashItemRef {
+  kind: TrashItem['kind']
+  id: string
+}
+
+export interface SaveImprovedPromptRequest {
+  id: string
+  name: string
+  basePromptKey: PromptKey
+  scope: PromptScope
+  scopeValue: string
+  originalPrompt: string
+  improvedPrompt: string
+  score: number
+  mutations: string[]
+  sampleOutput?: string
+  model?: string
+}
+
+export interface RestoredRevision {
+  chapterId: string
+  content: string
+  summary: string
+  beats: StoryBeat[]
+  scenes: StoryScene[] // The chapter's scenes with the restored prose split back onto them
+}
+
+/**
+ * Invoke channels: `request` is the single argument (void = none), `response` what the promise resolves to
+ */
+export interface IpcContract {
+  // Incremental project saves
+  'db-upsert-project': { request: ProjectRecord; response: Success }
+  'db-upsert-part': { request: { projectId: string; part: StoryPart; order: number }; response: Success }
+  'db-delete-part': { request: string; response: Success }
+  'db-upsert-chapter': { request: { projectId: string; chapter: StoryChapter; order: number }; response: Success }
+  'db-delete-chapter': { request: string; response: Success }
+  'db-reorder-chapters': { request: { projectId: string; chapterIds: string[] }; response: Success }
+  'db-upsert-character': { request: { projectId: string; character: Character }; response: Success }
+  'db-delete-character': { request: string; response: Success }
+  'db-upsert-relationship': { request: { projectId: string; relationship: CharacterRelationship }; response: Success }
+  'db-delete-relationship': { request: string; response: Success }
+  'db-upsert-term': { request: { projectId: string; term: StoryTerm }; response: Success }
+  'db-delete-term': { request: string; response: Success }
+  'db-upsert-timeline-event': { request: { projectId: string; event: TimelineEvent }; response: Success }
+  'db-delete-timeline-event': { request: string; response: Success }
+  'db-upsert-note': { request: { projectId: string; note: Omit<StoryNote, 'attachments'> }; response: Success }
+  'db-delete-note': { request: string; response: Success }
+  'db-upsert-comment': { request: { projectId: string; comment: StoryComment }; response: Success }
+  'db-delete-comment': { request: string; response: Success }
+
+  // Note attachments
+  'note-add-attachments': { request: { projectId: string; noteId: string }; response: NoteAttachment[] }
+  'note-open-attachment': { request: string; response: Success }
+  'note-delete-attachment': { request: string; response: Success }
+
+  // Projects
+  'db-load-project': { request: string; response: ProjectSnapshot | null }
+  'db-list-projects': { request: void; response: ProjectListItem[] }
+  'db-delete-project': { request: string; response: Success }
+  'db-fork-project': { request: { projectId: string; title: string; forkChapterId: string | null }; response: { projectId: string } }
+  'project-export': { request: string; response: { filePath: string } | null }
+  'project-import': { request: void; response: { projectId: string; title: string } | null }
+
+  // Trash
+  'db-list-trash': { request: void; response: TrashItem[] }
+  'db-restore-trash-item': { request: TrashItemRef; response: { projectId: string } }
+  'db-purge-trash-item': { request: TrashItemRef; response: Success }
+  'db-purge-expired-trash': { request: number; response: { purged: number } }
+
+  // Search
+  'db-search': { request: { projectId: string; query: string; limit?: number }; response: SearchResult[] }
+
+  // Writing sessions
+  'db-upsert-writing-session': { request: { projectId: string; session: WritingSession }; response: Success }
+  'db-list-writing-sessions': { request: string; response: WritingSession[] }
+
+  // AI call log
+  'db-insert-ai-call': { request: { projectId: string | null; call: AiCallRecord }; response: Success }
+  'db-list-ai-calls': { request: string; response: AiCallRecord[] }
+  'db-ai-spend': { request: { projectId: string; since: string }; response: number } // USD logged since the ISO date
+
+  // Chapter revisions
+  'db-list-chapter-revisions': { request: string; response: ChapterRevision[] }
+  'db-load-chapter-revision': { request: string; response: ChapterRevision | null }
+  'db-restore-chapter-revision': { request: string; response: RestoredRevision }
+
+  // Improved prompts
+  'db-save-improved-prompt': { request: SaveImprovedPromptRequest; response: StoredPrompt | null }
+  'db-load-improved-prompts': { request: void; response: StoredPrompt[] }
+  'db-delete-improved-prompt': { request: { basePromptKey: PromptKey; scope: PromptScope; scopeValue: string }; response: Success }
+  'db-list-prompt-versions': { request: string; response: PromptVersion[] }
+  'db-pin-prompt-version': { request: string; response: StoredPrompt }
+
+  // Backups
+  'backup-list': { request: void; response: BackupInfo[] }
+  'backup-create': { request: void; response: BackupInfo }
+  'backup-restore': { request: string; response: Success }
+  'backup-get-settings': { request: void; response: BackupSettings }
+  'backup-set-settings': { request: Partial<BackupSettings>; response: BackupSettings }
+
+  // Secrets: provider keys can be set and checked for, never read back
+  'secret-set': { request: { providerId: string; value: string }; response: SecretStatus }
+  'secret-status': { request: void; response: SecretStatus }
+
+  // AI requests, made by the main process with the stored key. A request that failed after
+  // any retries resolves with the failure, since a rejection would lose its kind.
+  // `retries` counts the extra attempts the main process made after transient failures
+  'ai-complete': { request: AiChatRequest; response: { content: string; usage: AiUsage | null; retries: number } | { failure: AiFailure; retries: number } }
+  'ai-stream': { request: AiChatRequest; response: { usage: AiUsage | null; retries: number } | { failure: AiFailure; retries: number } }
+  'ai-cancel': { request: string; response: Success } // Stops the request with this ID, if it's still running
+  'ai-list-models': { request: string; response: string[] }
+  // Null when the provider has no tokenizer to ask, or it couldn't be reached
+  'ai-count-tokens': { request: { providerId: string; model: string; text: string }; response: number | null }
+  // Prices by model ID, for providers that publish them (OpenRouter)
+  'ai-model-pricing': { request: string; response: Record<string, ModelPricing> }
+  'ai-list-providers': { request: void; response: AiProvider[] }
+  'ai-save-provider': { request: AiProvider; response: AiProvider[] }
+  'ai-delete-provider': { request: string; response: AiProvider[] }
+}
+
+export type IpcChannel = keyof IpcContract
+export type IpcRequest<C extends IpcChannel> = IpcContract[C]['request']
+export type IpcResponse<C extends IpcChannel> = IpcContract[C]['response']
+export type IpcArgs<C extends IpcChannel> = IpcRequest<C> extends void ? [] : [payload: IpcRequest<C>]
+
+/**
+ * Events the main process pushes to the renderer, with their payload
+ */
+export interface IpcEvents {
+  'main-process-message': string
+  'ai-stream-chunk': { requestId: string; content: string }
+}
+
+export type IpcEventChannel = keyof IpcEvents
+
+// Runtime allowlists for the preload. Typed as records so adding a channel
+// to the contract without listing it here is a compile error.
+export const IPC_CHANNELS: Record<IpcChannel, true> = {
+  'db-upsert-project': true,
+  'db-upsert-part': true,
+  'db-delete-part': true,
+  'db-upsert-chapter': true,
+  'db-delete-chapter': true,
+  'db-reorder-chapters': true,
+  'db-upsert-character': true,
+  'db-delete-character': true,
+  'db-upsert-relationship': true,
+  'db-delete-relationship': true,
+  'db-upsert-term': true,
+  'db-delete-term': true,
+  'db-upsert-timeline-event': true,
+  'db-delete-timeline-event': true,
+  'db-upsert-note': true,
+  'db-delete-note': true,
+  'db-upsert-comment': true,
+  'db-delete-comment': true,
+  'note-add-attachments': true,
+  'note-open-attachment': true,
+  'note-delete-attachment': true,
+  'db-load-project': true,
+  'db-list-projects': true,
+  'db-delete-project': true,
+  'db-fork-project': true,
+  'project-export': true,
+  'project-import': true,
+  'db-list-trash': true,
+  'db-restore-trash-item': true,
+  'db-purge-trash-item': true,
+  'db-purge-expired-trash': true,
+  'db-search': true,
+  'db-upsert-writing-session': true,
+  'db-list-writing-sessions': true,
+  'db-insert-ai-call': true,
+  'db-list-ai-calls': true,
+  'db-ai-spend': true,
+  'db-list-chapter-revisions': true,
+  'db-load-chapter-revision': true,
+  'db-restore-chapter-revision': true,
+  'db-save-improved-prompt': true,
+  'db-load-improved-prompts': true,
+  'db-delete-improved-prompt': true,
+  'db-list-prompt-versions': true,
+  'db-pin-prompt-version': true,
+  'backup-list': true,
+  'backup-create': true,
+  'backup-restore': true,
+  'backup-get-settings': true,
+  'backup-set-settings': true,
+  'secret-set': true,
+  'secret-status': true,
+  'ai-complete': true,
+  'ai-stream': true,
+  'ai-cancel': true,
+  'ai-list-models': true,
+  'ai-count-tokens': true,
+  'ai-model-pricing': true,
+  'ai-list-providers': true,
+  'ai-save-provider': true,
+  'ai-delete-provider': true
+}
+
+export const IPC_EVENT_CHANNELS: Record<IpcEventChannel, true> = {
+  'main-process-message': true,
+  'ai-stream-chunk': true
+}
+
+/**
+ * What the preload exposes as `window.ipc`
+ */
+export interface IpcBridge {
+  invoke<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResponse<C>>
+  /** Subscribes to a main-process event; returns a function that unsubscribes */
+  on<E extends IpcEventChannel>(channel: E, listener: (payload: IpcEvents[E]) => void): () => void
+}
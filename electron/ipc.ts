@@ -0,0 +1,421 @@
+import { ipcMain, type IpcMainInvokeEvent } from 'electron'
+import type { IpcChannel, IpcRequest, IpcResponse } from './ipc-contract'
+import { isSafeId } from './attachments'
+import type { StoryChapter, StoryTerm, ActRole, RelationshipType, StoryComment } from '../src/stores/project'
+
+/**
+ * Runtime payload checks for the IPC contract. TypeScript only guards the renderer
+ * at build time; these make the main process reject a drifted or hostile payload
+ * with a clear error instead of writing half-valid rows.
+ */
+
+export class IpcPayloadError extends Error {
+  constructor(channel: string, path: string, expected: string) {
+    super(`Invalid payload for "${channel}": ${path || 'payload'} must be ${expected}`)
+    this.name = 'IpcPayloadError'
+  }
+}
+
+// Returns the value typed, or throws a description of what was expected
+type Check<T> = (value: unknown, path: string) => T
+
+class CheckFailed extends Error {
+  constructor(public path: string, public expected: string) {
+    super(expected)
+  }
+}
+
+const fail = (path: string, expected: string): never => {
+  throw new CheckFailed(path, expected)
+}
+
+const string: Check<string> = (value, path) => typeof value === 'string' ? value : fail(path, 'a string')
+
+const number: Check<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number')
+
+// IDs that end up in file paths, e.g. the project's attachments folder
+const safeId: Check<string> = (value, path) =>
+  isSafeId(string(value, path)) ? value as string : fail(path, 'an ID of letters, digits, "-" and "_"')
+
+const boolean: Check<boolean> = (value, path) => typeof value === 'boolean' ? value : fail(path, 'a boolean')
+
+// Free text that older rows or AI output may leave out; saved as empty, like the row mappers do
+const text: Check<string> = (value, path) =>
+  value === null || value === undefined ? '' : string(value, path)
+
+const flag: Check<boolean> = (value, path) =>
+  value === null || value === undefined ? false : boolean(value, path)
+
+const none: Check<void> = (value, path) => value === undefined ? undefined : fail(path, 'omitted')
+
+function oneOf<const T extends string>(...options: T[]): Check<T> {
+  return (value, path) => options.includes(value as T) ? value as T : fail(path, `one of ${options.join(', ')}`)
+}
+
+// For enums the AI fills in: the value is kept as-is even if it isn't a known option
+function looseOneOf<T extends string>(): Check<T> {
+  return (value, path) => string(value, path) as T
+}
+
+function optional<T>(check: Check<T>): Check<T | undefined> {
+  return (value, path) => value === undefined ? undefined : check(value, path)
+}
+
+function nullable<T>(check: Check<T>): Check<T | null> {
+  return (value, path) => value === null ? null : check(value, path)
+}
+
+function array<T>(check: Check<T>): Check<T[]> {
+  return (value, path) => Array.isArray(value)
+    ? value.map((item, i) => check(item, `${path}[${i}]`))
+    : fail(path, 'a list')
+}
+
+type Shape = Record<string, Check<unknown>>
+type FromShape<S extends Shape> = { [K in keyof S]: S[K] extends Check<infer T> ? T : never }
+
+/**
+ * Checks the listed fields and keeps any others as-is, so older and newer
+ * renderers can add display-only fields without breaking saves
+ */
+function object<S extends Shape>(shape: S): Check<FromShape<S>> {
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(path, 'an object')
+    const result: Record<string, unknown> = { ...value }
+    for (const [key, check] of Object.entries(shape)) {
+      const field = check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+      if (field !== undefined) result[key] = field
+    }
+    return result as FromShape<S>
+  }
+}
+
+// A map with free-form keys, e.g. HTTP headers
+function record<T>(check: Check<T>): Check<Record<string, T>> {
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(path, 'an object')
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, check(item, `${path}.${key}`)]))
+  }
+}
+
+// ============================================
+// Entity shapes
+// ============================================
+
+const storyBeat = object({ id: string, text, resolved: flag })
+
+const storyBible = object({
+  coreThemes: text,
+  characterTerminologies: text,
+  toneGuidelines: text,
+  narrativeArc: text,
+  motifs: text,
+  worldRules: text
+})
+
+const projectRecord = object({
+  id: safeId,
+  title: string,
+  author: text,
+  genre: text,
+  ageGroup: text,
+  logline: text,
+  synopsis: text,
+  originalPremise: text,
+  storyBible,
+  wordGoal: optional(number),
+  goalDeadline: optional(string),
+  monthlyBudget: optional(number),
+  operationBudget: optional(number)
+})
+
+const storyPart = object({
+  id: string,
+  title: string,
+  summary: text,
+  actRole: optional(oneOf<ActRole | ''>('', 'setup', 'confrontation', 'resolution'))
+})
+
+const storyScene = object({
+  id: string,
+  title: text,
+  povCharacterId: optional(string),
+  location: text,
+  goal: text,
+  conflict: text,
+  outcome: text,
+  beats: optional(array(storyBeat)),
+  content: text,
+  summary: text
+})
+
+const storyChapter = object({
+  id: string,
+  title: string,
+  summary: text,
+  status: looseOneOf<StoryChapter['status']>(),
+  placeholder: text,
+  validatorNotes: text,
+  draftStatus: optional(looseOneOf<NonNullable<StoryChapter['draftStatus']>>()),
+  denseSummary: text,
+  contextSnapshot: text,
+  contextTokens: optional(number),
+  lastPromptHash: text,
+  content: text,
+  characters: optional(array(string)),
+  beats: optional(array(storyBeat)),
+  scenes: optional(array(storyScene)),
+  partId: optional(string),
+  originChapterId: optional(string)
+})
+
+const character = object({
+  id: string,
+  name: string,
+  role: text,
+  bio: text,
+  traits: text,
+  isPov: flag,
+  voiceDiction: text,
+  voiceForbidden: text,
+  voiceMetaphors: text
+})
+
+const relationship = object({
+  id: string,
+  fromId: string,
+  toId: string,
+  type: oneOf<RelationshipType>('family', 'romantic', 'friend', 'ally', 'mentor', 'rival', 'enemy', 'debt', 'professional', 'other'),
+  description: text,
+  changesInChapterId: optional(string)
+})
+
+const storyTerm = object({
+  id: string,
+  term: string,
+  definition: text,
+  notes: text,
+  chapters: optional(array(string)),
+  category: optional(looseOneOf<NonNullable<StoryTerm['category']>>()),
+  aliases: text
+})
+
+const timelineEvent = object({
+  id: string,
+  title: string,
+  description: text,
+  dateLabel: text,
+  anchorEventId: optional(string),
+  offsetDays: number,
+  chapters: array(string),
+  characters: array(string)
+})
+
+const storyNote = object({
+  id: string,
+  title: string,
+  content: text,
+  tags: array(string),
+  chapters: array(string),
+  characters: array(string),
+  terms: array(string),
+  includeInContext: flag,
+  updatedAt: optional(string)
+})
+
+const storyComment = object({
+  id: string,
+  chapterId: string,
+  anchorId: string,
+  parentId: optional(string),
+  body: text,
+  quote: text,
+  status: oneOf<StoryComment['status']>('open', 'resolved'),
+  source: oneOf<StoryComment['source']>('user', 'continuity'),
+  createdAt: string,
+  resolvedAt: optional(string)
+})
+
+const writingSession = object({
+  id: string,
+  chapterId: string,
+  startedAt: string,
+  endedAt: string,
+  humanWordsAdded: number,
+  aiWordsAdded: number,
+  wordsRemoved: number
+})
+
+const aiCall = object({
+  id: string,
+  chapterId: optional(string),
+  operation: string,
+  promptKey: optional(string),
+  provider: string,
+  model: string,
+  streamed: flag,
+  systemHash: string,
+  userHash: string,
+  systemPrompt: optional(string),
+  userPrompt: optional(string),
+  promptTokens: nullable(number),
+  completionTokens: nullable(number),
+  totalTokens: nullable(number),
+  cost: nullable(number),
+  latencyMs: number,
+  retries: number,
+  outcome: oneOf('success', 'non-english', 'aborted', 'error'),
+  error: optional(string),
+  createdAt: string
+})
+
+const aiChatMessage = object({ role: oneOf('system', 'user'), content: string })
+const aiGenerationParams = object({
+  temperature: optional(number),
+  topP: optional(number),
+  maxTokens: optional(number),
+  reasoningEffort: optional(oneOf('low', 'medium', 'high'))
+})
+const aiChatRequest = object({
+  requestId: string,
+  providerId: string,
+  model: string,
+  messages: array(aiChatMessage),
+  params: optional(aiGenerationParams)
+})
+
+const aiProvider = object({
+  id: string,
+  kind: oneOf('openrouter', 'openai', 'anthropic', 'openai-compatible'),
+  name: text,
+  baseUrl: string,
+  headers: record(string),
+  models: array(string)
+})
+
+const trashItemRef = object({ kind: oneOf('project', 'chapter', 'character', 'term', 'note'), id: string })
+
+const promptScope = oneOf('global', 'genre', 'project')
+
+const backupSettings = object({
+  intervalMinutes: optional(number),
+  keepHourly: optional(number),
+  keepDaily: optional(number)
+})
+
+// Prompt keys are checked as strings; the main process never interprets them
+const promptKey = string as Check<IpcRequest<'db-delete-improved-prompt'>['basePromptKey']>
+
+/**
+ * One check per channel. Typed against the contract, so a channel without a check,
+ * or a check that drifts from the declared request type, fails the build.
+ */
+const REQUEST_CHECKS: { [C in IpcChannel]: Check<IpcRequest<C>> } = {
+  'db-upsert-project': projectRecord,
+  'db-upsert-part': object({ projectId: string, part: storyPart, order: number }),
+  'db-delete-part': string,
+  'db-upsert-chapter': object({ projectId: string, chapter: storyChapter, order: number }),
+  'db-delete-chapter': string,
+  'db-reorder-chapters': object({ projectId: string, chapterIds: array(string) }),
+  'db-upsert-character': object({ projectId: string, character }),
+  'db-delete-character': string,
+  'db-upsert-relationship': object({ projectId: string, relationship }),
+  'db-delete-relationship': string,
+  'db-upsert-term': object({ projectId: string, term: storyTerm }),
+  'db-delete-term': string,
+  'db-upsert-timeline-event': object({ projectId: string, event: timelineEvent }),
+  'db-delete-timeline-event': string,
+  'db-upsert-note': object({ projectId: string, note: storyNote }),
+  'db-delete-note': string,
+  'db-upsert-comment': object({ projectId: string, comment: storyComment }),
+  'db-delete-comment': string,
+
+  'note-add-attachments': object({ projectId: safeId, noteId: string }),
+  'note-open-attachment': string,
+  'note-delete-attachment': string,
+
+  'db-load-project': string,
+  'db-list-projects': none,
+  'db-delete-project': string,
+  'db-fork-project': object({ projectId: string, title: string, forkChapterId: nullable(string) }),
+  'project-export': string,
+  'project-import': none,
+
+  'db-list-trash': none,
+  'db-restore-trash-item': trashItemRef,
+  'db-purge-trash-item': trashItemRef,
+  'db-purge-expired-trash': number,
+
+  'db-search': object({ projectId: string, query: string, limit: optional(number) }),
+
+  'db-upsert-writing-session': object({ projectId: string, session: writingSession }),
+  'db-list-writing-sessions': string,
+
+  'db-insert-ai-call': object({ projectId: nullable(string), call: aiCall }),
+  'db-list-ai-calls': string,
+  'db-ai-spend': object({ projectId: string, since: string }),
+
+  'db-list-chapter-revisions': string,
+  'db-load-chapter-revision': string,
+  'db-restore-chapter-revision': string,
+
+  'db-save-improved-prompt': object({
+    id: string,
+    name: string,
+    basePromptKey: promptKey,
+    scope: promptScope,
+    scopeValue: string,
+    originalPrompt: string,
+    improvedPrompt: string,
+    score: number,
+    mutations: array(string),
+    sampleOutput: optional(string),
+    model: optional(string)
+  }),
+  'db-load-improved-prompts': none,
+  'db-delete-improved-prompt': object({ basePromptKey: promptKey, scope: promptScope, scopeValue: string }),
+  'db-list-prompt-versions': string,
+  'db-pin-prompt-version': string,
+
+  'backup-list': none,
+  'backup-create': none,
+  'backup-restore': string,
+  'backup-get-settings': none,
+  'backup-set-settings': backupSettings,
+
+  'secret-set': object({ providerId: string, value: string }),
+  'secret-status': none,
+
+  'ai-complete': aiChatRequest,
+  'ai-stream': aiChatRequest,
+  'ai-cancel': string,
+  'ai-list-models': string,
+  'ai-count-tokens': object({ providerId: string, model: string, text: string }),
+  'ai-model-pricing': string,
+  'ai-list-providers': none,
+  'ai-save-provider': aiProvider,
+  'ai-delete-provider': string
+}
+
+/**
+ * Registers a contract channel. The payload is checked before `handler` runs, and
+ * the handler's result must match the contract's response type.
+ */
+export function handle<C extends IpcChannel>(
+  channel: C,
+  handler: (event: IpcMainInvokeEvent, payload: IpcRequest<C>) => Promise<IpcResponse<C>>
+) {
+  ipcMain.handle(channel, async (event, payload: unknown) => {
+    let checked: IpcRequest<C>
+    try {
+      checked = REQUEST_CHECKS[channel](payload, '')
+    } catch (error) {
+      if (!(error instanceof CheckFailed)) throw error
+      const rejected = new IpcPayloadError(channel, error.path, error.expected)
+      console.error(rejected.message)
+      throw rejected
+    }
+    return handler(event, checked)
+  })
+}
@@ -1,7 +1,10 @@
-import { app, BrowserWindow, Menu, MenuItem } from 'electron'
+import { app, BrowserWindow, Menu, MenuItem, dialog } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import { initDb } from './db'
+import { setupSecretHandlers } from './secrets'
+import { setupAiHandlers } from './ai'
+import { setupProviderHandlers } from './providers'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -104,8 +107,18 @@ app.whenReady().then(async () => {
     console.log('App ready, initializing DB...')
     await initDb()
     console.log('DB initialized.')
+    setupSecretHandlers()
+    setupProviderHandlers()
+    setupAiHandlers()
   } catch (e) {
     console.error('FATAL: Failed to initialize DB:', e)
+    // Running on a half-migrated database would corrupt projects, so stop here
+    dialog.showErrorBox(
+      'Database could not be opened',
+      `${e instanceof Error ? e.message : String(e)}\n\nThe app will now close. Your database file has not been modified past the last successful migration.`
+    )
+    app.quit()
+    return
   }
   createWindow()
 })
@@ -0,0 +1,319 @@
+import type { Client, Transaction } from '@libsql/client'
+import { is } from 'drizzle-orm'
+import { SQLiteTable, getTableConfig } from 'drizzle-orm/sqlite-core'
+import * as schema from '../src/db/schema'
+import { chapterSearchEntries, characterSearchEntries, termSearchEntries, type SearchEntry } from './search'
+
+/**
+ * A single, ordered schema change. Versions are never reused or reordered once shipped.
+ *
+ * New tables belong in CREATE_TABLES_SQL (and schema.ts); migrations only reshape
+ * tables that existing databases already have. A fresh database is created from
+ * CREATE_TABLES_SQL and stamped at the latest version, so `up` never runs against it.
+ */
+export interface Migration {
+  version: number
+  name: string
+  up: (tx: Transaction) => Promise<void>
+}
+
+async function columnExists(tx: Transaction, table: string, column: string): Promise<boolean> {
+  const result = await tx.execute(`PRAGMA table_info("${table}")`)
+  return result.rows.some(row => row.name === column)
+}
+
+async function addColumnIfMissing(tx: Transaction, table: string, column: string, definition: string) {
+  if (await columnExists(tx, table, column)) return
+  await tx.execute(`ALTER TABLE "${table}" ADD COLUMN "${column}" ${definition}`)
+}
+
+async function insertSearchEntries(tx: Transaction, entries: SearchEntry[]) {
+  for (const entry of entries) {
+    if (!entry.body && !entry.title) continue
+    await tx.execute({
+      sql: 'INSERT INTO search_index (kind, field, entity_id, project_id, title, body) VALUES (?, ?, ?, ?, ?, ?)',
+      args: [entry.kind, entry.field, entry.entityId, entry.projectId, entry.title, entry.body]
+    })
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'legacy-column-additions',
+    // Columns that older builds added with unchecked ALTER statements
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'chapters', 'content', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'chapters', 'beats', "TEXT DEFAULT '[]'")
+      await addColumnIfMissing(tx, 'chapters', 'placeholder', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'chapters', 'validator_notes', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'chapters', 'draft_status', "TEXT DEFAULT 'draft'")
+      await addColumnIfMissing(tx, 'chapters', 'dense_summary', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'chapters', 'context_snapshot', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'chapters', 'context_tokens', 'INTEGER DEFAULT 0')
+      await addColumnIfMissing(tx, 'chapters', 'last_prompt_hash', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'characters', 'is_pov', 'INTEGER DEFAULT 0')
+      await addColumnIfMissing(tx, 'characters', 'voice_diction', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'characters', 'voice_forbidden', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'characters', 'voice_metaphors', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'terminology', 'category', "TEXT DEFAULT 'other'")
+      await addColumnIfMissing(tx, 'terminology', 'aliases', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'projects', 'original_premise', "TEXT DEFAULT ''")
+      await addColumnIfMissing(tx, 'projects', 'story_bible', "TEXT DEFAULT '{}'")
+      await addColumnIfMissing(tx, 'projects', 'age_group', "TEXT DEFAULT ''")
+    }
+  },
+  {
+    version: 2,
+    name: 'search-index-backfill',
+    // search_index itself comes from CREATE_TABLES_SQL; fill it from the rows saved before it existed
+    up: async (tx) => {
+      await tx.execute('DELETE FROM search_index')
+      const chapters = await tx.execute('SELECT id, project_id, title, content, summary FROM chapters')
+      for (const row of chapters.rows) {
+        await insertSearchEntries(tx, chapterSearchEntries({
+          id: String(row.id),
+          projectId: String(row.project_id),
+          title: String(row.title ?? ''),
+          content: row.content as string | null,
+          summary: row.summary as string | null
+        }))
+      }
+      const characters = await tx.execute('SELECT id, project_id, name, bio, traits FROM characters')
+      for (const row of characters.rows) {
+        await insertSearchEntries(tx, characterSearchEntries({
+          id: String(row.id),
+          projectId: String(row.project_id),
+          name: String(row.name ?? ''),
+          bio: row.bio as string | null,
+          traits: row.traits as string | null
+        }))
+      }
+      const terms = await tx.execute('SELECT id, project_id, term, definition, notes, aliases FROM terminology')
+      for (const row of terms.rows) {
+        await insertSearchEntries(tx, termSearchEntries({
+          id: String(row.id),
+          projectId: String(row.project_id),
+          term: String(row.term ?? ''),
+          definition: row.definition as string | null,
+          notes: row.notes as string | null,
+          aliases: row.aliases as string | null
+        }))
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'soft-delete-columns',
+    up: async (tx) => {
+      for (const table of ['projects', 'chapters', 'characters', 'terminology']) {
+        await addColumnIfMissing(tx, table, 'deleted_at', 'INTEGER')
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'project-fork-lineage',
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'projects', 'parent_project_id', 'TEXT')
+      await addColumnIfMissing(tx, 'projects', 'forked_at', 'INTEGER')
+      await addColumnIfMissing(tx, 'projects', 'fork_chapter_id', 'TEXT')
+      await addColumnIfMissing(tx, 'chapters', 'origin_chapter_id', 'TEXT')
+    }
+  },
+  {
+    version: 5,
+    name: 'scoped-improved-prompts',
+    // SQLite cannot drop the old UNIQUE(base_prompt_key), so the table is rebuilt.
+    // Existing overrides become global ones, which is how they behaved before.
+    up: async (tx) => {
+      if (await columnExists(tx, 'improved_prompts', 'scope')) return
+      await tx.execute(`
+        CREATE TABLE improved_prompts_new (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          base_prompt_key TEXT NOT NULL,
+          scope TEXT NOT NULL DEFAULT 'global',
+          scope_value TEXT NOT NULL DEFAULT '',
+          original_prompt TEXT NOT NULL,
+          improved_prompt TEXT NOT NULL,
+          score INTEGER DEFAULT 0,
+          mutations TEXT DEFAULT '[]',
+          created_at INTEGER DEFAULT (strftime('%s', 'now')),
+          updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+          UNIQUE (base_prompt_key, scope, scope_value)
+        )
+      `)
+      await tx.execute(`
+        INSERT INTO improved_prompts_new
+          (id, name, base_prompt_key, scope, scope_value, original_prompt, improved_prompt, score, mutations, created_at, updated_at)
+        SELECT id, name, base_prompt_key, 'global', '', original_prompt, improved_prompt, score, mutations, created_at, updated_at
+        FROM improved_prompts
+      `)
+      await tx.execute('DROP TABLE improved_prompts')
+      await tx.execute('ALTER TABLE improved_prompts_new RENAME TO improved_prompts')
+    }
+  },
+  {
+    version: 6,
+    name: 'prompt-version-history',
+    // prompt_versions comes from CREATE_TABLES_SQL; each existing override becomes its own version 1
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'improved_prompts', 'active_version_id', 'TEXT')
+      const prompts = await tx.execute('SELECT id, improved_prompt, score, mutations, updated_at FROM improved_prompts')
+      for (const row of prompts.rows) {
+        const versionId = crypto.randomUUID()
+        await tx.execute({
+          sql: `INSERT INTO prompt_versions (id, prompt_id, version, improved_prompt, score, mutations, created_at)
+                VALUES (?, ?, 1, ?, ?, ?, ?)`,
+          args: [versionId, row.id, row.improved_prompt, row.score ?? 0, row.mutations ?? '[]', row.updated_at ?? null]
+        })
+        await tx.execute({
+          sql: 'UPDATE improved_prompts SET active_version_id = ? WHERE id = ?',
+          args: [versionId, row.id]
+        })
+      }
+    }
+  },
+  {
+    version: 7,
+    name: 'chapter-scenes',
+    // scenes comes from CREATE_TABLES_SQL; chapters written so far become a single scene holding
+    // their prose and beats, so their content is unchanged when derived from scenes
+    up: async (tx) => {
+      const chapters = await tx.execute(`
+        SELECT id, project_id, content, beats FROM chapters
+        WHERE (COALESCE(content, '') != '' OR COALESCE(beats, '[]') != '[]')
+          AND id NOT IN (SELECT chapter_id FROM scenes)
+      `)
+      for (const row of chapters.rows) {
+        await tx.execute({
+          sql: `INSERT INTO scenes (id, chapter_id, project_id, "order", title, beats, content)
+                VALUES (?, ?, ?, 0, 'Scene 1', ?, ?)`,
+          args: [crypto.randomUUID(), row.id, row.project_id, row.beats ?? '[]', row.content ?? '']
+        })
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'chapter-parts',
+    // parts comes from CREATE_TABLES_SQL; existing chapters start out in no part
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'chapters', 'part_id', 'TEXT')
+    }
+  },
+  {
+    version: 9,
+    name: 'project-word-goal',
+    // writing_sessions comes from CREATE_TABLES_SQL; projects start out with no goal
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'projects', 'word_goal', 'INTEGER DEFAULT 0')
+      await addColumnIfMissing(tx, 'projects', 'goal_deadline', 'TEXT')
+    }
+  },
+  {
+    version: 10,
+    name: 'ai-call-provider',
+    // Calls logged before providers existed all went to OpenRouter
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'ai_calls', 'provider', "TEXT DEFAULT 'openrouter'")
+    }
+  },
+  {
+    version: 11,
+    name: 'project-budgets',
+    // Existing projects start out with no spending caps
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'projects', 'monthly_budget', 'REAL DEFAULT 0')
+      await addColumnIfMissing(tx, 'projects', 'operation_budget', 'REAL DEFAULT 0')
+    }
+  }
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0)
+
+const SCHEMA_VERSION_SQL = `
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+`
+
+export async function getSchemaVersion(client: Client): Promise<number> {
+  await client.executeMultiple(SCHEMA_VERSION_SQL)
+  const result = await client.execute('SELECT MAX(version) AS version FROM schema_version')
+  return Number(result.rows[0]?.version ?? 0)
+}
+
+/**
+ * Returns the migrations a database at `currentVersion` still needs, in order
+ */
+export function getPendingMigrations(currentVersion: number): Migration[] {
+  return MIGRATIONS
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version)
+}
+
+/**
+ * Applies each pending migration in its own write transaction and records it in schema_version.
+ * Stops at the first failure; earlier migrations stay applied so a retry resumes from there.
+ */
+export async function runMigrations(client: Client, migrations: Migration[]) {
+  for (const migration of migrations) {
+    const tx = await client.transaction('write')
+    try {
+      console.log(`Applying migration ${migration.version} (${migration.name})...`)
+      await migration.up(tx)
+      await tx.execute({
+        sql: 'INSERT INTO schema_version (version, name) VALUES (?, ?)',
+        args: [migration.version, migration.name]
+      })
+      await tx.commit()
+    } catch (err) {
+      await tx.rollback().catch(() => {})
+      const reason = err instanceof Error ? err.message : String(err)
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${reason}`)
+    } finally {
+      tx.close()
+    }
+  }
+}
+
+/**
+ * Marks a freshly created database as already being at the latest schema version
+ */
+export async function stampLatestVersion(client: Client) {
+  await client.batch(MIGRATIONS.map(m => ({
+    sql: 'INSERT OR IGNORE INTO schema_version (version, name) VALUES (?, ?)',
+    args: [m.version, m.name]
+  })), 'write')
+}
+
+/**
+ * Compares the live database against the drizzle tables in src/db/schema.ts.
+ * A column declared in schema.ts but missing from the database means CREATE_TABLES_SQL
+ * or a migration has drifted, and every query touching that table would fail later.
+ */
+export async function verifySchema(client: Client) {
+  const problems: string[] = []
+  for (const value of Object.values(schema)) {
+    if (!is(value, SQLiteTable)) continue
+    const config = getTableConfig(value)
+    const result = await client.execute(`PRAGMA table_info("${config.name}")`)
+    if (result.rows.length === 0) {
+      problems.push(`table "${config.name}" is missing`)
+      continue
+    }
+    const existing = new Set(result.rows.map(row => String(row.name)))
+    for (const column of config.columns) {
+      if (!existing.has(column.name)) {
+        problems.push(`column "${config.name}.${column.name}" is missing`)
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Database schema does not match src/db/schema.ts: ${problems.join('; ')}`)
+  }
+}
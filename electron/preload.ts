@@ -1,24 +1,26 @@
 import { ipcRenderer, contextBridge } from 'electron'
+import { IPC_CHANNELS, IPC_EVENT_CHANNELS, type IpcBridge } from './ipc-contract'
 
-// --------- Expose some API to the Renderer process ---------
-contextBridge.exposeInMainWorld('ipcRenderer', {
-  on(...args: Parameters<typeof ipcRenderer.on>) {
-    const [channel, listener] = args
-    return ipcRenderer.on(channel, (event, ...args) => listener(event, ...args))
-  },
-  off(...args: Parameters<typeof ipcRenderer.off>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.off(channel, ...omit)
-  },
-  send(...args: Parameters<typeof ipcRenderer.send>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.send(channel, ...omit)
-  },
-  invoke(...args: Parameters<typeof ipcRenderer.invoke>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.invoke(channel, ...omit)
+// --------- Expose the typed IPC bridge to the Renderer process ---------
+// Only channels listed in ipc-contract.ts get through; everything else is rejected here.
+const bridge: IpcBridge = {
+  invoke(channel, ...args) {
+    if (!Object.prototype.hasOwnProperty.call(IPC_CHANNELS, channel)) {
+      return Promise.reject(new Error(`IPC channel "${channel}" is not allowed`))
+    }
+    return ipcRenderer.invoke(channel, ...args)
   },
+  on(channel, listener) {
+    if (!Object.prototype.hasOwnProperty.call(IPC_EVENT_CHANNELS, channel)) {
+      throw new Error(`IPC event "${channel}" is not allowed`)
+    }
+    // Never hand the raw IpcRendererEvent (and its sender) to the page
+    const wrapped = (_event: Electron.IpcRendererEvent, payload: any) => listener(payload)
+    ipcRenderer.on(channel, wrapped)
+    return () => {
+      ipcRenderer.off(channel, wrapped)
+    }
+  }
+}
 
-  // You can expose other APTs you need here.
-  // ...
-})
+contextBridge.exposeInMainWorld('ipc', bridge)
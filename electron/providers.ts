@@ -0,0 +1,97 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import { handle } from './ipc'
+import { setSecret } from './secrets'
+import { BUILT_IN_PROVIDERS, isBuiltInProvider, type AiProvider } from '../src/services/providers'
+
+/**
+ * Provider configs, kept next to the keys they are used with. Built-in providers can be
+ * edited but not removed; a provider's key is cleared whenever its base URL changes, so
+ * a key is only ever sent to the server it was entered for.
+ */
+
+function getProvidersPath() {
+  return path.join(app.getPath('userData'), 'providers.json')
+}
+
+function normalizeProvider(raw: AiProvider): AiProvider {
+  return {
+    id: raw.id,
+    kind: raw.kind,
+    name: raw.name.trim() || raw.baseUrl,
+    baseUrl: raw.baseUrl.trim().replace(/\/+$/, ''),
+    headers: Object.fromEntries(Object.entries(raw.headers || {}).filter(([name]) => name.trim())),
+    models: [...new Set((raw.models || []).map(m => m.trim()).filter(Boolean))]
+  }
+}
+
+export async function listProviders(): Promise<AiProvider[]> {
+  let stored: AiProvider[] = []
+  try {
+    stored = JSON.parse(await fs.readFile(getProvidersPath(), 'utf-8'))
+  } catch {
+    // First run, or an unreadable file: start from the built-ins
+  }
+  const missing = BUILT_IN_PROVIDERS.filter(builtIn => !stored.some(p => p.id === builtIn.id))
+  return [...missing.map(p => ({ ...p })), ...stored]
+}
+
+export async function getProvider(id: string): Promise<AiProvider> {
+  const provider = (await listProviders()).find(p => p.id === id)
+  if (!provider) throw new Error(`Unknown AI provider "${id}". Check the provider in Settings.`)
+  return provider
+}
+
+async function writeProviders(providers: AiProvider[]) {
+  await fs.writeFile(getProvidersPath(), JSON.stringify(providers, null, 2), 'utf-8')
+}
+
+export function setupProviderHandlers() {
+  // ============================================
+  // Provider Handlers
+  // ============================================
+
+  handle('ai-list-providers', async () => {
+    try {
+      return await listProviders()
+    } catch (error) {
+      console.error('List Providers Error:', error)
+      throw error
+    }
+  })
+
+  handle('ai-save-provider', async (_, raw) => {
+    try {
+      const provider = normalizeProvider(raw)
+      if (!provider.baseUrl) throw new Error('A provider needs a base URL.')
+      const providers = await listProviders()
+      const index = providers.findIndex(p => p.id === provider.id)
+      if (index === -1) {
+        providers.push(provider)
+      } else {
+        if (isBuiltInProvider(provider.id)) provider.kind = providers[index].kind
+        if (providers[index].baseUrl !== provider.baseUrl) await setSecret(provider.id, '')
+        providers[index] = provider
+      }
+      await writeProviders(providers)
+      return providers
+    } catch (error) {
+      console.error('Save Provider Error:', error)
+      throw error
+    }
+  })
+
+  handle('ai-delete-provider', async (_, id) => {
+    try {
+      if (isBuiltInProvider(id)) throw new Error('Built-in providers cannot be removed.')
+      const providers = (await listProviders()).filter(p => p.id !== id)
+      await writeProviders(providers)
+      await setSecret(id, '')
+      return providers
+    } catch (error) {
+      console.error('Delete Provider Error:', error)
+      throw error
+    }
+  })
+}
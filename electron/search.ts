@@ -0,0 +1,96 @@
+/**
+ * Full-text search index over manuscript text. One FTS5 table holds every searchable
+ * field; `kind`/`field` say where a hit came from so results can link back to it.
+ */
+
+export type SearchKind = 'chapter' | 'character' | 'term'
+export type SearchField = 'content' | 'summary' | 'bio' | 'definition'
+
+export interface SearchEntry {
+  kind: SearchKind
+  field: SearchField
+  entityId: string
+  projectId: string
+  title: string
+  body: string
+}
+
+export const SEARCH_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  kind UNINDEXED,
+  field UNINDEXED,
+  entity_id UNINDEXED,
+  project_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
+`
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'"
+}
+
+/**
+ * Reduces stored chapter HTML (or markdown) to the plain text the index should see
+ */
+export function toSearchText(value: string | null | undefined): string {
+  if (!value) return ''
+  return value
+    .replace(/<\/(p|h[1-6]|li|blockquote)>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity] || entity)
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+}
+
+export function chapterSearchEntries(row: { id: string; projectId: string; title: string; content?: string | null; summary?: string | null }): SearchEntry[] {
+  const base = { kind: 'chapter' as const, entityId: row.id, projectId: row.projectId, title: row.title || '' }
+  return [
+    { ...base, field: 'content', body: toSearchText(row.content) },
+    { ...base, field: 'summary', body: toSearchText(row.summary) }
+  ]
+}
+
+export function characterSearchEntries(row: { id: string; projectId: string; name: string; bio?: string | null; traits?: string | null }): SearchEntry[] {
+  const body = [row.bio, row.traits].filter(Boolean).join('\n')
+  return [{ kind: 'character', field: 'bio', entityId: row.id, projectId: row.projectId, title: row.name || '', body }]
+}
+
+export function termSearchEntries(row: { id: string; projectId: string; term: string; definition?: string | null; notes?: string | null; aliases?: string | null }): SearchEntry[] {
+  const body = [row.definition, row.aliases, row.notes].filter(Boolean).join('\n')
+  return [{ kind: 'term', field: 'definition', entityId: row.id, projectId: row.projectId, title: row.term || '', body }]
+}
+
+/**
+ * Turns free text typed by the user into a safe FTS5 query: every word must appear,
+ * the last one as a prefix so results update while typing. Returns '' if nothing searchable.
+ */
+export function toFtsQuery(input: string): string {
+  const words = input.match(/[\p{L}\p{N}'’-]+/gu) || []
+  const terms = words
+    .map(word => word.replace(/"/g, ''))
+    .filter(Boolean)
+    .map(word => `"${word}"`)
+  if (terms.length === 0) return ''
+  terms[terms.length - 1] += '*'
+  return terms.join(' ')
+}
+
+// Control characters never occur in indexed text, so they can mark hits before escaping
+export const SNIPPET_OPEN = '\u0001'
+export const SNIPPET_CLOSE = '\u0002'
+
+/**
+ * Escapes an FTS snippet for display and turns the hit markers into <mark> tags
+ */
+export function formatSnippet(raw: string): string {
+  return raw
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(SNIPPET_OPEN).join('<mark>')
+    .split(SNIPPET_CLOSE).join('</mark>')
+}
@@ -0,0 +1,90 @@
+import { app, safeStorage } from 'electron'
+import path from 'path'
+import fs from 'fs/promises'
+import { handle } from './ipc'
+import type { SecretStatus } from '../src/stores/settings'
+
+/**
+ * API keys, one per provider, encrypted with the OS keychain through safeStorage and
+ * kept in the main process. The renderer can set or clear a key and ask whether one is
+ * configured, but never read it back; requests that need a key are made from here.
+ */
+
+// Encrypted values, base64-encoded, by provider ID
+type SecretFile = Record<string, string>
+
+// Where the single OpenRouter key was saved before providers existed
+const LEGACY_KEYS: Record<string, string> = { openRouterKey: 'openrouter' }
+
+function getSecretsPath() {
+  return path.join(app.getPath('userData'), 'secrets.json')
+}
+
+async function readSecretFile(): Promise<SecretFile> {
+  let file: SecretFile
+  try {
+    file = JSON.parse(await fs.readFile(getSecretsPath(), 'utf-8'))
+  } catch {
+    return {}
+  }
+  for (const [legacy, providerId] of Object.entries(LEGACY_KEYS)) {
+    if (file[legacy] && !file[providerId]) file[providerId] = file[legacy]
+    delete file[legacy]
+  }
+  return file
+}
+
+async function getStatus(): Promise<SecretStatus> {
+  const file = await readSecretFile()
+  return Object.fromEntries(Object.keys(file).map(providerId => [providerId, true]))
+}
+
+/**
+ * The decrypted key, or null if none is set. Main process only: never return this
+ * through IPC.
+ */
+export async function getSecret(providerId: string): Promise<string | null> {
+  const stored = (await readSecretFile())[providerId]
+  if (!stored) return null
+  return safeStorage.decryptString(Buffer.from(stored, 'base64'))
+}
+
+// An empty value clears the key
+export async function setSecret(providerId: string, value: string) {
+  const file = await readSecretFile()
+  if (value) {
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error('Secure storage is not available on this system, so the key cannot be saved.')
+    }
+    file[providerId] = safeStorage.encryptString(value).toString('base64')
+  } else {
+    delete file[providerId]
+  }
+  await fs.writeFile(getSecretsPath(), JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 })
+}
+
+export function setupSecretHandlers() {
+  // ============================================
+  // Secret Handlers
+  // ============================================
+
+  // Write-only: answers with which keys are configured, not their values
+  handle('secret-set', async (_, { providerId, value }) => {
+    try {
+      await setSecret(providerId, value.trim())
+      return await getStatus()
+    } catch (error) {
+      console.error('Set Secret Error:', error)
+      throw error
+    }
+  })
+
+  handle('secret-status', async () => {
+    try {
+      return await getStatus()
+    } catch (error) {
+      console.error('Secret Status Error:', error)
+      throw error
+    }
+  })
+}
@@ -1,5 +1,6 @@
-import { useProjectStore, type StoryChapter, type Character } from '../stores/project'
+import { useProjectStore, ACT_ROLE_LABELS, RELATIONSHIP_TYPE_LABELS, type CharacterRelationship, type StoryChapter, type StoryScene, type StoryPart, type Character } from '../stores/project'
 import { stripHtml } from './useTextUtils'
+import { resolveEventDays, getChapterTimeSpans, findTimelineConflicts, sortEventsByDay, formatStoryDay, formatDayGap } from './useTimeline'
 import { generateText } from '../services/ai'
 
 /**
@@ -40,14 +41,79 @@ export function useChapterContext() {
     return blocks.length ? `Story Bible:\n${blocks.join('\n')}` : ''
   }
 
+  function formatPartHeading(part: StoryPart): string {
+    return `${part.title}${part.actRole ? ` (${ACT_ROLE_LABELS[part.actRole]})` : ''}`
+  }
+
+  /**
+   * The part a chapter belongs to and where the chapter falls inside it
+   */
+  function formatPartContext(chapter: StoryChapter): string {
+    const part = projectStore.storyParts.find(p => p.id === chapter.partId)
+    if (!part) return ''
+    const partChapters = projectStore.storyOutline.filter(c => c.partId === part.id)
+    const position = partChapters.findIndex(c => c.id === chapter.id)
+    return [
+      `Part: ${formatPartHeading(part)}`,
+      part.summary ? `Part Summary: ${stripHtml(part.summary)}` : '',
+      position !== -1 ? `This is chapter ${position + 1} of ${partChapters.length} in this part.` : ''
+    ].filter(Boolean).join('\n')
+  }
+
+  /**
+   * Every chapter title and summary, under a heading for each part
+   */
+  function formatOutline(): string {
+    let currentPartId: string | undefined
+    const lines: string[] = []
+    for (const ch of projectStore.storyOutline) {
+      if (ch.partId !== currentPartId) {
+        currentPartId = ch.partId
+        const part = projectStore.storyParts.find(p => p.id === ch.partId)
+        if (part) lines.push(`[${formatPartHeading(part)}]${part.summary ? ` ${stripHtml(part.summary)}` : ''}`)
+        else if (lines.length) lines.push('[Chapters outside any part]')
+      }
+      lines.push(`${ch.title}: ${stripHtml(ch.summary || '')}`)
+    }
+    return lines.join('\n')
+  }
+
   /**
    * Formats detailed character info including voice for POV characters
    */
-  function formatCharacterForChapter(char: Character, isPovForChapter: boolean): string {
+  /**
+   * When a relationship turns, relative to the chapter being written
+   */
+  function formatRelationshipTiming(relationship: CharacterRelationship, chapter: StoryChapter): string {
+    if (!relationship.changesInChapterId) return ''
+    if (relationship.changesInChapterId === chapter.id) return ' (this changes IN this chapter)'
+    const changeIndex = projectStore.storyOutline.findIndex(c => c.id === relationship.changesInChapterId)
+    if (changeIndex === -1) return ''
+    const title = projectStore.storyOutline[changeIndex].title
+    return changeIndex < projectStore.storyOutline.findIndex(c => c.id === chapter.id)
+      ? ` (changed in "${title}")`
+      : ` (changes later, in "${title}"; not yet)`
+  }
+
+  /**
+   * A character's profile for a chapter prompt. Given the chapter, it also lists the
+   * character's relationships to the other characters present in it.
+   */
+  function formatCharacterForChapter(char: Character, isPovForChapter: boolean, chapter?: StoryChapter): string {
     const lines = [`**${char.name}** (${char.role}): ${stripHtml(char.bio)}`]
     if (char.traits) {
       lines.push(`  Traits: ${char.traits}`)
     }
+    if (chapter) {
+      const present = new Set(chapter.characters || [])
+      const relationships = projectStore.relationships.filter(r => r.fromId === char.id && present.has(r.toId))
+      for (const relationship of relationships) {
+        const other = projectStore.characterOutline.find(c => c.id === relationship.toId)
+        if (!other) continue
+        const description = relationship.description || RELATIONSHIP_TYPE_LABELS[relationship.type].toLowerCase()
+        lines.push(`  Relationship: ${description} ${other.name} [${RELATIONSHIP_TYPE_LABELS[relationship.type]}]${formatRelationshipTiming(relationship, chapter)}`)
+      }
+    }
     if (isPovForChapter || char.isPov) {
       if (char.voiceDiction) {
         lines.push(`  Voice/Diction: ${char.voiceDiction}`)
@@ -62,6 +128,89 @@ export function useChapterContext() {
     return lines.join('\n')
   }
 
+  function formatSceneCard(scene: StoryScene, index: number): string {
+    const pov = scene.povCharacterId
+      ? projectStore.characterOutline.find(c => c.id === scene.povCharacterId)?.name
+      : ''
+    return [
+      `Scene ${index + 1}: ${scene.title || 'Untitled'}`,
+      pov ? `  POV: ${pov}` : '',
+      scene.location ? `  Location: ${scene.location}` : '',
+      scene.goal ? `  Goal: ${stripHtml(scene.goal)}` : '',
+      scene.conflict ? `  Conflict: ${stripHtml(scene.conflict)}` : '',
+      scene.outcome ? `  Outcome: ${stripHtml(scene.outcome)}` : '',
+      scene.beats?.length ? `  Beats: ${scene.beats.map(b => b.text).join('; ')}` : ''
+    ].filter(Boolean).join('\n')
+  }
+
+  /**
+   * The scenes of a chapter as a plan, so whole-chapter generation follows them
+   */
+  function formatScenePlan(chapter: StoryChapter): string {
+    const scenes = chapter.scenes || []
+    if (scenes.length < 2 && !scenes.some(s => s.goal || s.conflict || s.outcome || s.location)) return ''
+    return `Scene Plan (write the chapter as these scenes, in order):\n${scenes.map(formatSceneCard).join('\n\n')}`
+  }
+
+  /**
+   * Where the chapter falls on the story's timeline: its days, the time since the
+   * previous placed chapter, its events and the few events just before it
+   */
+  function formatTimelinePosition(chapter: StoryChapter): string {
+    const events = projectStore.timeline
+    if (events.length === 0) return ''
+    const days = resolveEventDays(events)
+    const spans = getChapterTimeSpans(events, days)
+    const span = spans.get(chapter.id)
+    if (!span) return ''
+    const characterNames = (ids: string[]) => ids
+      .map(id => projectStore.characterOutline.find(c => c.id === id)?.name)
+      .filter(Boolean)
+      .join(', ')
+    const formatEvent = (event: typeof events[number]) => {
+      const who = characterNames(event.characters)
+      return `- ${formatStoryDay(days.get(event.id) ?? 0)}${event.dateLabel ? ` (${event.dateLabel})` : ''}: ${event.title}${who ? ` [${who}]` : ''}${event.description ? ` — ${stripHtml(event.description)}` : ''}`
+    }
+
+    const index = projectStore.storyOutline.findIndex(c => c.id === chapter.id)
+    const previous = projectStore.storyOutline.slice(0, index).reverse().find(c => spans.has(c.id))
+    const previousSpan = previous ? spans.get(previous.id) : undefined
+    const conflict = findTimelineConflicts(projectStore.storyOutline, spans).get(chapter.id)
+    const linked = new Set(span.events.map(e => e.id))
+    const before = sortEventsByDay(events, days)
+      .filter(e => !linked.has(e.id) && (days.get(e.id) ?? 0) <= span.start)
+      .slice(-3)
+
+    const dateLabel = span.events.find(e => e.dateLabel)?.dateLabel
+    return [
+      `Timeline Position: ${formatStoryDay(span.start)}${span.end > span.start ? ` to ${formatStoryDay(span.end)}` : ''}${dateLabel ? ` (${dateLabel})` : ''}`,
+      previous && previousSpan ? `Time since previous chapter ("${previous.title}"): ${formatDayGap(span.start - previousSpan.end)}` : '',
+      conflict ? `NOTE: this chapter is set before "${conflict.title}", which comes earlier in the book. Treat it as a flashback and make the time shift clear.` : '',
+      `Events in this chapter:\n${span.events.map(formatEvent).join('\n')}`,
+      before.length ? `Most recent earlier events (what characters can already know):\n${before.map(formatEvent).join('\n')}` : ''
+    ].filter(Boolean).join('\n')
+  }
+
+  /**
+   * Research notes marked for AI context that concern this chapter: notes without chapter
+   * links apply everywhere, like unscoped terms; linked notes apply to their chapters and
+   * to chapters featuring one of their characters. Long notes are cut to keep the prompt lean.
+   */
+  function formatNotesForChapter(chapter: StoryChapter): string {
+    const chapterCharacters = chapter.characters || []
+    const relevant = projectStore.notes.filter(n => n.includeInContext && (
+      n.chapters.length === 0
+      || n.chapters.includes(chapter.id)
+      || n.characters.some(id => chapterCharacters.includes(id))
+    ))
+    return relevant
+      .map(n => {
+        const text = stripHtml(n.content || '').trim()
+        return `- **${n.title}**: ${text.length > 1200 ? `${text.slice(0, 1200)}…` : text}`
+      })
+      .join('\n')
+  }
+
   /**
    * Builds a comprehensive prompt context for a chapter including
    * book metadata, surrounding chapters, characters, and terminology
@@ -82,7 +231,7 @@ export function useChapterContext() {
       .filter(Boolean) as Character[]
     const povCharacter = chapterCharacters.find(c => c.isPov) || chapterCharacters[0]
     const characterDetails = chapterCharacters
-      .map(char => formatCharacterForChapter(char, char.id === povCharacter?.id))
+      .map(char => formatCharacterForChapter(char, char.id === povCharacter?.id, chapter))
       .join('\n\n')
     const relevantTerms = projectStore.terminology
       .filter(t => !t.chapters || t.chapters.length === 0 || t.chapters.includes(chapter.id))
@@ -92,26 +241,60 @@ export function useChapterContext() {
     const termUsageInstruction = relevantTerms.length > 0
       ? `\n\n⚠️ TERMINOLOGY REQUIREMENT: You MUST use the following terms naturally in this chapter where appropriate. Do not invent alternatives—use these exact canonical terms:\n${relevantTerms.map(t => `• "${t.term}"`).join('\n')}`
       : ''
+    const noteContext = formatNotesForChapter(chapter)
     const parts = [
       plainLogline ? `Book Logline: ${plainLogline}` : '',
       plainSynopsis ? `Book Synopsis: ${plainSynopsis}` : '',
       ageGroup ? `Audience Age Group: ${ageGroup}` : '',
       lengthGuidance ? `Length Guidance: ${lengthGuidance}` : '',
       formatStoryBible(),
+      formatPartContext(chapter),
       `Chapter Title: ${chapter.title}`,
       `Chapter Synopsis: ${stripHtml(chapter.summary || '')}`,
+      formatTimelinePosition(chapter),
       chapter.placeholder ? `Placeholder: ${stripHtml(chapter.placeholder)}` : '',
       chapter.validatorNotes ? `Validator Notes: ${stripHtml(chapter.validatorNotes)}` : '',
       characterDetails ? `Characters in this chapter:\n${characterDetails}` : '',
+      formatScenePlan(chapter),
       prevSummary ? `Previous Chapter Summary: ${prevSummary}` : '',
       prevDense ? `Previous Dense Summary: ${prevDense}` : '',
       nextSummary ? `Next Chapter Summary: ${nextSummary}` : '',
       termContext ? `World Terminology:\n${termContext}${termUsageInstruction}` : '',
+      noteContext ? `Research Notes (background facts to stay consistent with; do not quote them):\n${noteContext}` : '',
       `Guidance: Maintain continuity with the previous chapter and set up the next chapter naturally.`
     ].filter(Boolean)
     return parts.join('\n\n')
   }
 
+  /**
+   * Builds the prompt for writing one scene: the chapter context, what the scenes
+   * before it already cover, and the scene's own POV, setting and dramatic turn
+   */
+  function buildScenePrompt(chapter: StoryChapter, sceneId: string): string {
+    const scenes = chapter.scenes || []
+    const index = scenes.findIndex(s => s.id === sceneId)
+    const scene = scenes[index]
+    if (!scene) return buildChapterPrompt(chapter)
+    const povCharacter = scene.povCharacterId
+      ? projectStore.characterOutline.find(c => c.id === scene.povCharacterId)
+      : undefined
+    const previousScenes = scenes.slice(0, index)
+      .map((s, i) => `Scene ${i + 1} (${s.title || 'Untitled'}): ${stripHtml(s.summary || s.goal || '') || 'No summary yet'}`)
+      .join('\n')
+    const previousScene = index > 0 ? scenes[index - 1] : null
+    const previousEnding = previousScene?.content ? stripHtml(previousScene.content).slice(-1200) : ''
+    const nextScene = index < scenes.length - 1 ? scenes[index + 1] : null
+    return [
+      buildChapterPrompt(chapter),
+      previousScenes ? `Earlier scenes in this chapter:\n${previousScenes}` : 'This is the FIRST scene of the chapter.',
+      previousEnding ? `Previous scene ends with:\n${previousEnding}` : '',
+      `SCENE TO WRITE:\n${formatSceneCard(scene, index)}`,
+      povCharacter ? `Point of view:\n${formatCharacterForChapter(povCharacter, true)}` : '',
+      nextScene ? `Next scene: ${nextScene.title || 'Untitled'}${nextScene.goal ? ` (goal: ${stripHtml(nextScene.goal)})` : ''}` : 'This is the LAST scene of the chapter.',
+      'Write only this scene. Open on its goal, escalate its conflict, and land its outcome; do not write the other scenes.'
+    ].filter(Boolean).join('\n\n')
+  }
+
   /**
    * Builds a system prompt for editing with full book context
    */
@@ -121,16 +304,17 @@ export function useChapterContext() {
     const ageGroup = projectStore.bookMetadata.ageGroup || ''
     const lengthGuidance = getLengthGuidance(projectStore.bookMetadata.genre || '', ageGroup)
 
-    const outlineContext = projectStore.storyOutline
-      .map(ch => `${ch.title}: ${stripHtml(ch.summary || '')}`)
-      .join('\n')
+    const outlineContext = formatOutline()
 
     const termContext = projectStore.terminology
       .map(term => `${term.term}: ${term.definition}${term.notes ? ` | Usage: ${term.notes}` : ''}`)
       .join('\n')
 
     const chapterContext = currentChapter
-      ? `Current Chapter: ${currentChapter.title}\nSynopsis: ${stripHtml(currentChapter.summary || '')}`
+      ? [
+          formatPartContext(currentChapter),
+          `Current Chapter: ${currentChapter.title}\nSynopsis: ${stripHtml(currentChapter.summary || '')}`
+        ].filter(Boolean).join('\n')
       : ''
 
     return [
@@ -148,9 +332,10 @@ export function useChapterContext() {
   }
 
   /**
-   * Builds a prompt for continuity checking a chapter
+   * Builds a prompt for continuity checking a chapter, or one of its scenes when
+   * `sceneId` is given (the neighbouring scenes then stand in for the chapter text)
    */
-  function buildContinuityPrompt(chapterIndex: number): string {
+  function buildContinuityPrompt(chapterIndex: number, sceneId?: string): string {
     const chapter = projectStore.storyOutline[chapterIndex]
     const prevChapter = chapterIndex > 0 ? projectStore.storyOutline[chapterIndex - 1] : null
     const nextChapter = chapterIndex < projectStore.storyOutline.length - 1 ? projectStore.storyOutline[chapterIndex + 1] : null
@@ -175,14 +360,33 @@ export function useChapterContext() {
       lengthGuidance ? `Length Guidance: ${lengthGuidance}` : '',
       characterDetails ? `Characters:\n${characterDetails}` : '',
       termContext ? `Terminology:\n${termContext}` : '',
+      formatPartContext(chapter),
+      formatTimelinePosition(chapter),
       prevChapter ? `PREVIOUS CHAPTER ("${prevChapter.title}"):\n${stripHtml(prevChapter.content || prevChapter.summary || '')}` : 'This is the FIRST chapter.',
-      `CURRENT CHAPTER ("${chapter.title}") - This is the text to improve:\n${chapter.content || ''}`,
+      ...formatContinuityTarget(chapter, sceneId),
       nextChapter ? `NEXT CHAPTER ("${nextChapter.title}") Synopsis:\n${stripHtml(nextChapter.summary || '')}` : 'This is the LAST chapter.',
     ].filter(Boolean)
 
     return parts.join('\n\n---\n\n')
   }
 
+  function formatContinuityTarget(chapter: StoryChapter, sceneId?: string): string[] {
+    const scenes = chapter.scenes || []
+    const index = sceneId ? scenes.findIndex(s => s.id === sceneId) : -1
+    if (index === -1) {
+      return [`CURRENT CHAPTER ("${chapter.title}") - This is the text to improve:\n${chapter.content || ''}`]
+    }
+    const scene = scenes[index]
+    const before = scenes.slice(0, index).map(s => stripHtml(s.content || '')).filter(Boolean).join('\n\n')
+    const after = scenes.slice(index + 1).map((s, i) => formatSceneCard(s, index + 1 + i)).join('\n\n')
+    return [
+      `CURRENT CHAPTER ("${chapter.title}") synopsis:\n${stripHtml(chapter.summary || '')}`,
+      before ? `EARLIER SCENES OF THIS CHAPTER:\n${before}` : '',
+      `CURRENT SCENE:\n${formatSceneCard(scene, index)}\n\nThis is the text to improve (this scene only):\n${scene.content || ''}`,
+      after ? `LATER SCENES OF THIS CHAPTER:\n${after}` : ''
+    ]
+  }
+
   /**
    * Extracts new terminology and character mentions from chapter content
    * Returns suggestions for terms/characters that appear but aren't defined
@@ -295,6 +499,7 @@ Generate characters that would naturally appear in these chapters and drive the
     formatStoryBible,
     formatCharacterForChapter,
     buildChapterPrompt,
+    buildScenePrompt,
     buildEditSystemPrompt,
     buildContinuityPrompt,
     extractFromChapter,
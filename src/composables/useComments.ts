@@ -0,0 +1,139 @@
+import { Mark, mergeAttributes, type Editor } from '@tiptap/vue-3'
+import type { StoryChapter, StoryComment } from '../stores/project'
+
+/**
+ * Comment anchors in manuscript text. A commented passage is wrapped in
+ * <span data-comment-id="…">, the ID its thread's comments share as `anchorId`.
+ * The span lives in the scene HTML, so it moves with the text as the writer edits
+ * around it and disappears only when the passage itself is deleted or rewritten.
+ */
+
+export const COMMENT_ATTRIBUTE = 'data-comment-id'
+
+export const CommentMark = Mark.create({
+  name: 'comment',
+  // Typing at the edge of a commented passage doesn't extend the comment
+  inclusive: false,
+  // Passages may carry several threads, so the mark doesn't exclude itself
+  excludes: '',
+
+  addAttributes() {
+    return {
+      commentId: {
+        default: null,
+        parseHTML: element => element.getAttribute(COMMENT_ATTRIBUTE),
+        renderHTML: attributes => attributes.commentId ? { [COMMENT_ATTRIBUTE]: attributes.commentId } : {}
+      }
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${COMMENT_ATTRIBUTE}]` }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { class: 'comment-anchor' }), 0]
+  }
+})
+
+export interface CommentThread {
+  root: StoryComment
+  replies: StoryComment[] // Oldest first
+  sceneId?: string // Scene whose text holds the anchor; unset when the passage is gone
+  anchored: boolean
+}
+
+export function htmlHasAnchor(html: string, anchorId: string): boolean {
+  return html.includes(`${COMMENT_ATTRIBUTE}="${anchorId}"`)
+}
+
+/**
+ * The chapter's threads in the order they were opened, each located in the scene
+ * that holds its passage.
+ */
+export function getCommentThreads(comments: StoryComment[], chapter: StoryChapter): CommentThread[] {
+  const scenes = chapter.scenes || []
+  const chapterComments = comments.filter(c => c.chapterId === chapter.id)
+  return chapterComments
+    .filter(c => !c.parentId)
+    .map(root => {
+      const scene = scenes.find(s => htmlHasAnchor(s.content || '', root.anchorId))
+      return {
+        root,
+        replies: chapterComments.filter(c => c.parentId === root.id),
+        sceneId: scene?.id,
+        anchored: scene ? true : htmlHasAnchor(chapter.content || '', root.anchorId)
+      }
+    })
+}
+
+// AI findings quote passages loosely: wrapped in quotes, cut short with ellipses
+function quoteFragments(quote: string): string[] {
+  const cleaned = quote.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').trim()
+  const fragments = cleaned.split(/\s*(?:\.\.\.|…)\s*/).map(f => f.trim()).filter(f => f.length >= 8)
+  return [cleaned, ...fragments.sort((a, b) => b.length - a.length)].filter(Boolean)
+}
+
+/**
+ * Wraps the first occurrence of the quoted passage in a comment anchor. Matches within
+ * a single run of text, ignoring case. Returns the new HTML, or null if the passage
+ * isn't in the text.
+ */
+export function anchorQuoteInHtml(html: string, quote: string, anchorId: string): string | null {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  for (const fragment of quoteFragments(quote)) {
+    const needle = fragment.toLowerCase()
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+      const index = node.data.toLowerCase().indexOf(needle)
+      if (index === -1) continue
+      const match = node.splitText(index)
+      match.splitText(fragment.length)
+      const span = document.createElement('span')
+      span.setAttribute(COMMENT_ATTRIBUTE, anchorId)
+      match.parentNode!.insertBefore(span, match)
+      span.appendChild(match)
+      return container.innerHTML
+    }
+  }
+  return null
+}
+
+// Unwraps the anchor's spans, leaving the passage itself in place
+export function removeAnchorFromHtml(html: string, anchorId: string): string {
+  if (!htmlHasAnchor(html, anchorId)) return html
+  const container = document.createElement('div')
+  container.innerHTML = html
+  container.querySelectorAll(`span[${COMMENT_ATTRIBUTE}="${CSS.escape(anchorId)}"]`).forEach(span => {
+    span.replaceWith(...Array.from(span.childNodes))
+  })
+  return container.innerHTML
+}
+
+// Document range covered by the anchor in the open editor, or null if it isn't there
+export function findAnchorRange(editor: Editor, anchorId: string): { from: number; to: number } | null {
+  let range: { from: number; to: number } | null = null
+  editor.state.doc.descendants((node, pos) => {
+    if (!node.isText) return
+    if (!node.marks.some(m => m.type.name === 'comment' && m.attrs.commentId === anchorId)) return
+    range = range
+      ? { from: Math.min(range.from, pos), to: Math.max(range.to, pos + node.nodeSize) }
+      : { from: pos, to: pos + node.nodeSize }
+  })
+  return range
+}
+
+// Drops the anchor's marks from the open editor; the change goes through onUpdate like any edit
+export function removeAnchorFromEditor(editor: Editor, anchorId: string) {
+  const { state, view } = editor
+  const tr = state.tr
+  state.doc.descendants((node, pos) => {
+    for (const mark of node.marks) {
+      if (mark.type.name === 'comment' && mark.attrs.commentId === anchorId) {
+        tr.removeMark(pos, pos + node.nodeSize, mark)
+      }
+    }
+  })
+  if (tr.docChanged) view.dispatch(tr)
+}
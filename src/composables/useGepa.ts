@@ -1,5 +1,8 @@
 import { ref } from 'vue'
 import { generateText } from '../services/ai'
+import { startRun, type AiRun } from '../stores/budget'
+import { useSettingsStore } from '../stores/settings'
+import type { PromptKey } from '../stores/prompts'
 
 /**
  * Evaluation dimension for GEPA multi-criteria assessment
@@ -59,6 +62,10 @@ interface GepaConfig<T> {
   maxIterations?: number
   /** Minimum score threshold to stop early (0-1, default: 0.85) */
   targetScore?: number
+  /** Stops the run between or during AI calls; it then rejects with an AbortError */
+  signal?: AbortSignal
+  /** The larger run this is part of, for the per-operation spending cap (default: a run of its own) */
+  run?: AiRun
 }
 
 /**
@@ -232,6 +239,7 @@ export function useGepa() {
   ): Promise<GepaResult<T>> {
     const maxIterations = config.maxIterations ?? 2
     const targetScore = config.targetScore ?? 0.85
+    const run = config.run ?? startRun()
 
     isOptimizing.value = true
     const reflections: GepaReflection[] = []
@@ -249,7 +257,10 @@ export function useGepa() {
         const evalPrompt = buildEvaluationPrompt(config.dimensions, config.context)
         const evalResponse = await generateText(
           evalPrompt,
-          `Evaluate this ${config.taskName}:\n\n${config.serialize(current)}`
+          `Evaluate this ${config.taskName}:\n\n${config.serialize(current)}`,
+          'selection',
+          undefined,
+          { signal: config.signal, run }
         )
 
         const reflection = parseReflection(evalResponse)
@@ -266,7 +277,7 @@ export function useGepa() {
         progress.value = { iteration, phase: 'improving', score: finalScore }
 
         const improvePrompt = buildImprovementPrompt(config, current, reflection)
-        const improveResponse = await generateText(improvePrompt, '')
+        const improveResponse = await generateText(improvePrompt, '', 'selection', undefined, { signal: config.signal, run })
 
         try {
           current = config.parse(improveResponse)
@@ -295,12 +306,15 @@ export function useGepa() {
    */
   async function evaluate<T>(
     candidate: T,
-    config: Pick<GepaConfig<T>, 'taskName' | 'dimensions' | 'serialize' | 'context'>
+    config: Pick<GepaConfig<T>, 'taskName' | 'dimensions' | 'serialize' | 'context' | 'signal' | 'run'>
   ): Promise<GepaReflection> {
     const evalPrompt = buildEvaluationPrompt(config.dimensions, config.context)
     const evalResponse = await generateText(
       evalPrompt,
-      `Evaluate this ${config.taskName}:\n\n${config.serialize(candidate)}`
+      `Evaluate this ${config.taskName}:\n\n${config.serialize(candidate)}`,
+      'selection',
+      undefined,
+      { signal: config.signal, run: config.run }
     )
     return parseReflection(evalResponse)
   }
@@ -322,6 +336,10 @@ export function useGepa() {
     taskDescription: string
     /** Max iterations */
     maxIterations?: number
+    /** The prompt being optimized, so its sample runs on the model it's routed to */
+    promptKey?: PromptKey
+    /** Stops the run between or during AI calls; it then rejects with an AbortError */
+    signal?: AbortSignal
   }): Promise<{
     originalPrompt: string
     improvedPrompt: string
@@ -330,8 +348,13 @@ export function useGepa() {
     iterations: number
     finalScore: number
     promptMutations: string[]
+    /** The model that ran the prompt to produce the sample outputs */
+    model: string
   }> {
     const maxIterations = config.maxIterations ?? 2
+    const run = startRun()
+    const sampleOptions = { promptKey: config.promptKey, signal: config.signal, run }
+    const { model } = useSettingsStore().resolveRoute(config.promptKey)
     isOptimizing.value = true
     let currentPrompt = config.systemPrompt
     let sampleOutput = ''
@@ -342,14 +365,17 @@ export function useGepa() {
       for (let iteration = 1; iteration <= maxIterations; iteration++) {
         // Phase 1: EXECUTE - Run the prompt to generate output
         progress.value = { iteration, phase: 'executing', score: finalScore }
-        sampleOutput = await generateText(currentPrompt, config.sampleInput)
+        sampleOutput = await generateText(currentPrompt, config.sampleInput, 'selection', undefined, sampleOptions)
 
         // Phase 2: EVALUATE - Score the output
         progress.value = { iteration, phase: 'evaluating', score: finalScore }
         const evalPrompt = buildEvaluationPrompt(config.dimensions)
         const evalResponse = await generateText(
           evalPrompt,
-          `Evaluate this output from a "${config.promptName}" prompt:\n\n${sampleOutput}`
+          `Evaluate this output from a "${config.promptName}" prompt:\n\n${sampleOutput}`,
+          'selection',
+          undefined,
+          { signal: config.signal, run }
         )
         const reflection = parseReflection(evalResponse)
         finalScore = reflection.overallScore / 10
@@ -364,7 +390,10 @@ export function useGepa() {
         const reflectPrompt = buildPromptReflectionPrompt(config.taskDescription)
         const reflectResponse = await generateText(
           reflectPrompt,
-          `CURRENT PROMPT:\n${currentPrompt}\n\nOUTPUT PRODUCED:\n${sampleOutput}\n\nOUTPUT EVALUATION:\n- Score: ${reflection.overallScore}/10\n- Issues: ${reflection.mutations.map(m => m.issue).join('; ')}\n- Priority Fix: ${reflection.priorityFix}`
+          `CURRENT PROMPT:\n${currentPrompt}\n\nOUTPUT PRODUCED:\n${sampleOutput}\n\nOUTPUT EVALUATION:\n- Score: ${reflection.overallScore}/10\n- Issues: ${reflection.mutations.map(m => m.issue).join('; ')}\n- Priority Fix: ${reflection.priorityFix}`,
+          'selection',
+          undefined,
+          { signal: config.signal, run }
         )
 
         // Phase 4: MUTATE PROMPT - Generate improved prompt
@@ -372,7 +401,10 @@ export function useGepa() {
         const mutatePrompt = buildPromptMutationPrompt()
         const mutateResponse = await generateText(
           mutatePrompt,
-          `ORIGINAL PROMPT:\n${currentPrompt}\n\nREFLECTION ON WEAKNESSES:\n${reflectResponse}\n\nTASK: ${config.taskDescription}`
+          `ORIGINAL PROMPT:\n${currentPrompt}\n\nREFLECTION ON WEAKNESSES:\n${reflectResponse}\n\nTASK: ${config.taskDescription}`,
+          'selection',
+          undefined,
+          { signal: config.signal, run }
         )
 
         // Extract improved prompt
@@ -387,7 +419,7 @@ export function useGepa() {
 
       // Generate final output with improved prompt
       const improvedOutput = currentPrompt !== config.systemPrompt 
-        ? await generateText(currentPrompt, config.sampleInput)
+        ? await generateText(currentPrompt, config.sampleInput, 'selection', undefined, sampleOptions)
         : sampleOutput
 
       progress.value = { iteration: maxIterations, phase: 'complete', score: finalScore }
@@ -399,7 +431,8 @@ export function useGepa() {
         improvedOutput,
         iterations: promptMutations.length + 1,
         finalScore,
-        promptMutations
+        promptMutations,
+        model
       }
     } finally {
       isOptimizing.value = false
@@ -544,6 +577,14 @@ export const GEPA_DIMENSIONS = {
     { name: 'Character Integration', description: 'Characters are woven into the plot naturally', weight: 0.2 },
     { name: 'Premise Alignment', description: 'Outline matches the given premise/genre', weight: 0.2 },
     { name: 'JSON Format', description: 'Output is valid JSON matching expected schema', weight: 0.15 }
+  ],
+
+  // For prompts without dimensions of their own
+  promptGeneral: [
+    { name: 'Task Fulfillment', description: 'Output does what the prompt asks, fully and on topic', weight: 0.35 },
+    { name: 'Instruction Following', description: 'Every constraint in the prompt is respected', weight: 0.25 },
+    { name: 'Quality', description: 'Output is specific, accurate, and well written', weight: 0.25 },
+    { name: 'Format Compliance', description: 'Follows all formatting requirements in the prompt', weight: 0.15 }
   ]
 } as const
 
@@ -1,6 +1,7 @@
 import { useProjectStore, type StoryChapter } from '../stores/project'
 import { useChapterContext } from './useChapterContext'
 import { stripHtml } from './useTextUtils'
+import { estimateTokens } from '../services/tokens'
 
 /**
  * Lightweight rolling context helper: builds context snapshots,
@@ -10,11 +11,6 @@ export function useRollingContext() {
   const projectStore = useProjectStore()
   const { formatStoryBible } = useChapterContext()
 
-  function estimateTokens(text: string): number {
-    // Rough heuristic: 4 chars per token for planning purposes
-    return Math.ceil(text.length / 4)
-  }
-
   function hashString(text: string): string {
     let hash = 0
     for (let i = 0; i < text.length; i++) {
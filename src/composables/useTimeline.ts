@@ -0,0 +1,90 @@
+import type { StoryChapter, TimelineEvent } from '../stores/project'
+
+/**
+ * Timeline arithmetic shared by the timeline view, the outline's order check and the
+ * chapter prompts. Positions are in story days from day 0; events placed relative to
+ * another event are resolved through their anchor chain.
+ */
+
+export interface ChapterTimeSpan {
+  start: number
+  end: number
+  events: TimelineEvent[] // In timeline order
+}
+
+/**
+ * The story day of every event. An anchor that is missing, or that leads back to the
+ * event itself, counts as day 0, so a broken chain still gives every event a position.
+ */
+export function resolveEventDays(events: TimelineEvent[]): Map<string, number> {
+  const byId = new Map(events.map(e => [e.id, e]))
+  const days = new Map<string, number>()
+  const resolve = (event: TimelineEvent, visiting: Set<string>): number => {
+    const known = days.get(event.id)
+    if (known !== undefined) return known
+    visiting.add(event.id)
+    const anchor = event.anchorEventId ? byId.get(event.anchorEventId) : undefined
+    const base = anchor && !visiting.has(anchor.id) ? resolve(anchor, visiting) : 0
+    const day = base + (event.offsetDays || 0)
+    days.set(event.id, day)
+    return day
+  }
+  for (const event of events) resolve(event, new Set())
+  return days
+}
+
+export function sortEventsByDay(events: TimelineEvent[], days: Map<string, number>): TimelineEvent[] {
+  return [...events].sort((a, b) => (days.get(a.id) ?? 0) - (days.get(b.id) ?? 0) || a.title.localeCompare(b.title))
+}
+
+/**
+ * Where each chapter sits on the timeline, from the events linked to it.
+ * Chapters without events have no span.
+ */
+export function getChapterTimeSpans(events: TimelineEvent[], days = resolveEventDays(events)): Map<string, ChapterTimeSpan> {
+  const spans = new Map<string, ChapterTimeSpan>()
+  for (const event of sortEventsByDay(events, days)) {
+    const day = days.get(event.id) ?? 0
+    for (const chapterId of event.chapters) {
+      const span = spans.get(chapterId)
+      if (span) {
+        span.start = Math.min(span.start, day)
+        span.end = Math.max(span.end, day)
+        span.events.push(event)
+      } else {
+        spans.set(chapterId, { start: day, end: day, events: [event] })
+      }
+    }
+  }
+  return spans
+}
+
+/**
+ * Chapters whose story order contradicts their timeline order: each is set before a
+ * chapter that comes earlier in the book. Maps the chapter ID to that earlier chapter.
+ * Intentional flashbacks show up here too; the writer decides which ones are errors.
+ */
+export function findTimelineConflicts(chapters: StoryChapter[], spans: Map<string, ChapterTimeSpan>): Map<string, StoryChapter> {
+  const conflicts = new Map<string, StoryChapter>()
+  let latest: { start: number; chapter: StoryChapter } | null = null
+  for (const chapter of chapters) {
+    const span = spans.get(chapter.id)
+    if (!span) continue
+    if (latest && span.start < latest.start) {
+      conflicts.set(chapter.id, latest.chapter)
+    } else {
+      latest = { start: span.start, chapter }
+    }
+  }
+  return conflicts
+}
+
+export function formatStoryDay(day: number): string {
+  return `Day ${Number(day.toFixed(2))}`
+}
+
+export function formatDayGap(days: number): string {
+  const rounded = Number(Math.abs(days).toFixed(2))
+  if (rounded === 0) return 'the same day'
+  return `${rounded} day${rounded === 1 ? '' : 's'} ${days < 0 ? 'earlier' : 'later'}`
+}
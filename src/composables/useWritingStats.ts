@@ -0,0 +1,127 @@
+import type { WritingSession } from '../stores/sessions'
+
+/**
+ * Arithmetic behind the statistics view. Days are local calendar days keyed as
+ * YYYY-MM-DD; a session counts toward the day it started on.
+ */
+
+export interface DayTotals {
+  date: string
+  humanWords: number
+  aiWords: number
+  removedWords: number
+  minutes: number
+}
+
+export interface ChapterVelocity {
+  chapterId: string
+  sessions: number
+  humanWords: number
+  aiWords: number
+  removedWords: number
+  minutes: number
+  wordsPerHour: number | null // Added words (both origins) per hour of session time; null with no timed sessions
+}
+
+export function toDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function sessionMinutes(session: WritingSession): number {
+  return Math.max(0, new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 60_000
+}
+
+export function getDailyTotals(sessions: WritingSession[]): Map<string, DayTotals> {
+  const days = new Map<string, DayTotals>()
+  for (const session of sessions) {
+    const date = toDateKey(new Date(session.startedAt))
+    const day = days.get(date) || { date, humanWords: 0, aiWords: 0, removedWords: 0, minutes: 0 }
+    day.humanWords += session.humanWordsAdded
+    day.aiWords += session.aiWordsAdded
+    day.removedWords += session.wordsRemoved
+    day.minutes += sessionMinutes(session)
+    days.set(date, day)
+  }
+  return days
+}
+
+// The `count` days up to and including `today`, oldest first, with empty days filled in
+export function getRecentDays(daily: Map<string, DayTotals>, count: number, today = new Date()): DayTotals[] {
+  const result: DayTotals[] = []
+  for (let offset = count - 1; offset >= 0; offset--) {
+    const date = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset))
+    result.push(daily.get(date) || { date, humanWords: 0, aiWords: 0, removedWords: 0, minutes: 0 })
+  }
+  return result
+}
+
+/**
+ * Streaks count days with hand-written words; AI output alone doesn't keep one going.
+ * The current streak survives until the end of today, so it still counts yesterday's run
+ * before the writer has started today.
+ */
+export function getStreaks(daily: Map<string, DayTotals>, today = new Date()): { current: number; longest: number } {
+  const wroteOn = (date: Date) => (daily.get(toDateKey(date))?.humanWords || 0) > 0
+  const dayBefore = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1)
+
+  let current = 0
+  let cursor = wroteOn(today) ? today : dayBefore(today)
+  while (wroteOn(cursor)) {
+    current++
+    cursor = dayBefore(cursor)
+  }
+
+  let longest = 0
+  let run = 0
+  let previous: Date | null = null
+  const writingDays = [...daily.values()].filter(d => d.humanWords > 0).map(d => d.date).sort()
+  for (const key of writingDays) {
+    const [year, month, day] = key.split('-').map(Number)
+    const date = new Date(year, month - 1, day)
+    run = previous && toDateKey(dayBefore(date)) === toDateKey(previous) ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = date
+  }
+  return { current, longest: Math.max(longest, current) }
+}
+
+export function getChapterVelocity(sessions: WritingSession[]): ChapterVelocity[] {
+  const byChapter = new Map<string, ChapterVelocity>()
+  for (const session of sessions) {
+    const entry = byChapter.get(session.chapterId) || {
+      chapterId: session.chapterId, sessions: 0, humanWords: 0, aiWords: 0, removedWords: 0, minutes: 0, wordsPerHour: null
+    }
+    entry.sessions++
+    entry.humanWords += session.humanWordsAdded
+    entry.aiWords += session.aiWordsAdded
+    entry.removedWords += session.wordsRemoved
+    entry.minutes += sessionMinutes(session)
+    byChapter.set(session.chapterId, entry)
+  }
+  for (const entry of byChapter.values()) {
+    entry.wordsPerHour = entry.minutes >= 1 ? Math.round((entry.humanWords + entry.aiWords) / (entry.minutes / 60)) : null
+  }
+  return [...byChapter.values()]
+}
+
+/**
+ * Where the manuscript stands against the project goal. `daysLeft` counts today, so a
+ * goal due today leaves one day; `wordsPerDay` is what it takes to finish on time.
+ */
+export function getGoalProgress(currentWords: number, goal: number, deadline: string | undefined, today = new Date()) {
+  const remaining = Math.max(0, goal - currentWords)
+  const percent = goal > 0 ? Math.min(100, Math.round((currentWords / goal) * 100)) : 0
+  if (!deadline) return { remaining, percent, daysLeft: null, wordsPerDay: null, overdue: false }
+  const [year, month, day] = deadline.split('-').map(Number)
+  const due = new Date(year, month - 1, day)
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  const daysLeft = Math.round((due.getTime() - start.getTime()) / 86_400_000) + 1
+  return {
+    remaining,
+    percent,
+    daysLeft: Math.max(0, daysLeft),
+    wordsPerDay: daysLeft > 0 ? Math.ceil(remaining / daysLeft) : null,
+    overdue: daysLeft <= 0 && remaining > 0
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * How a chapter's prose is assembled from its scenes. Shared by the main process
+ * (saves, revision restores) and the renderer store so both derive the same HTML.
+ *
+ * Scenes are joined with a scene-break rule that names the scene it opens, so a
+ * chapter-level rewrite can be split back onto the scenes it came from.
+ */
+
+const SCENE_BREAK_PATTERN = /<hr\b[^>]*\bdata-scene-id="([^"]+)"[^>]*>/gi
+
+interface SceneProse {
+  id: string
+  content?: string | null
+}
+
+export function sceneBreak(sceneId: string): string {
+  return `<hr data-scene-id="${sceneId}">`
+}
+
+/**
+ * The chapter HTML for an ordered list of scenes
+ */
+export function joinSceneContent(scenes: SceneProse[]): string {
+  return scenes
+    .map((scene, index) => index === 0 ? (scene.content || '') : sceneBreak(scene.id) + (scene.content || ''))
+    .join('')
+}
+
+/**
+ * Distributes chapter HTML back onto its scenes. Text before the first scene break
+ * belongs to the first scene; a break naming an unknown scene is folded into the
+ * scene before it. Scenes whose break is gone keep their fields but lose their prose,
+ * so nothing the writer typed into the chapter is dropped.
+ */
+export function splitSceneContent<T extends SceneProse>(content: string, scenes: T[]): T[] {
+  if (scenes.length === 0) return scenes
+  const known = new Set(scenes.map(s => s.id))
+  const prose = new Map<string, string>(scenes.map(s => [s.id, '']))
+  let currentId = scenes[0].id
+  let lastIndex = 0
+  for (const match of content.matchAll(SCENE_BREAK_PATTERN)) {
+    prose.set(currentId, prose.get(currentId) + content.slice(lastIndex, match.index))
+    if (known.has(match[1])) currentId = match[1]
+    lastIndex = (match.index || 0) + match[0].length
+  }
+  prose.set(currentId, prose.get(currentId) + content.slice(lastIndex))
+  return scenes.map(scene => ({ ...scene, content: prose.get(scene.id) || '' }))
+}
+
+/**
+ * Chapter HTML with the scene IDs dropped from the breaks, for comparing prose across
+ * copies of a chapter (a fork's scenes have new IDs)
+ */
+export function withoutSceneIds(content: string): string {
+  return content.replace(SCENE_BREAK_PATTERN, '<hr>')
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, real, unique } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
 
 export const projects = sqliteTable('projects', {
@@ -12,7 +12,16 @@ export const projects = sqliteTable('projects', {
   originalPremise: text('original_premise').default(''),
   storyBible: text('story_bible').default('{}'),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
-  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`)
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }), // Set while the project sits in the trash
+  // Fork lineage: no FK so a fork survives its parent being purged
+  parentProjectId: text('parent_project_id'),
+  forkedAt: integer('forked_at', { mode: 'timestamp' }),
+  forkChapterId: text('fork_chapter_id'), // Parent chapter where the alternate draft starts to diverge
+  wordGoal: integer('word_goal').default(0), // Target manuscript length; 0 when no goal is set
+  goalDeadline: text('goal_deadline'), // Local date (YYYY-MM-DD) the goal is due
+  monthlyBudget: real('monthly_budget').default(0), // USD of AI calls per calendar month; 0 for no cap
+  operationBudget: real('operation_budget').default(0) // USD per batch, GEPA run or single call; 0 for no cap
 })
 
 export const chapters = sqliteTable('chapters', {
@@ -31,7 +40,40 @@ export const chapters = sqliteTable('chapters', {
   denseSummary: text('dense_summary').default(''),
   contextSnapshot: text('context_snapshot').default(''),
   contextTokens: integer('context_tokens').default(0),
-  lastPromptHash: text('last_prompt_hash').default('')
+  lastPromptHash: text('last_prompt_hash').default(''),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
+  originChapterId: text('origin_chapter_id'), // Chapter in the parent project this was forked from
+  // No FK: deleting a part clears this explicitly and leaves its chapters in the book
+  partId: text('part_id')
+})
+
+// Parts (or acts) group consecutive chapters; a chapter's part is chapters.part_id
+export const parts = sqliteTable('parts', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  order: integer('order').notNull(),
+  title: text('title').notNull(),
+  summary: text('summary').default(''),
+  actRole: text('act_role').default('') // '' | 'setup' | 'confrontation' | 'resolution'
+})
+
+// Ordered scenes of a chapter. chapters.content is these joined (see scenes.ts), so a
+// scene row is written in the same transaction as its chapter.
+export const scenes = sqliteTable('scenes', {
+  id: text('id').primaryKey(),
+  // No FK: scenes follow their chapter into the trash and are deleted with it on purge
+  chapterId: text('chapter_id').notNull(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  order: integer('order').notNull(),
+  title: text('title').default(''),
+  povCharacterId: text('pov_character_id'),
+  location: text('location').default(''),
+  goal: text('goal').default(''),
+  conflict: text('conflict').default(''),
+  outcome: text('outcome').default(''),
+  beats: text('beats').default('[]'), // JSON array of StoryBeat objects
+  content: text('content').default(''),
+  summary: text('summary').default('')
 })
 
 export const characters = sqliteTable('characters', {
@@ -44,7 +86,8 @@ export const characters = sqliteTable('characters', {
   isPov: integer('is_pov', { mode: 'boolean' }).default(false),
   voiceDiction: text('voice_diction').default(''),
   voiceForbidden: text('voice_forbidden').default(''),
-  voiceMetaphors: text('voice_metaphors').default('')
+  voiceMetaphors: text('voice_metaphors').default(''),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' })
 })
 
 export const terminology = sqliteTable('terminology', {
@@ -55,17 +98,163 @@ export const terminology = sqliteTable('terminology', {
   notes: text('notes').default(''),
   chapterIds: text('chapter_ids').default('[]'),
   category: text('category').default('other'),
-  aliases: text('aliases').default('')
+  aliases: text('aliases').default(''),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' })
 })
 
 export const improvedPrompts = sqliteTable('improved_prompts', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
-  basePromptKey: text('base_prompt_key').notNull().unique(),
+  basePromptKey: text('base_prompt_key').notNull(),
+  // 'global' | 'genre' | 'project'; scopeValue is the genre name or project id ('' for global)
+  scope: text('scope').notNull().default('global'),
+  scopeValue: text('scope_value').notNull().default(''),
   originalPrompt: text('original_prompt').notNull(),
   improvedPrompt: text('improved_prompt').notNull(),
   score: integer('score').default(0),
   mutations: text('mutations').default('[]'),
+  // The pinned prompt_versions row; improved_prompt/score/mutations mirror it
+  activeVersionId: text('active_version_id'),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`)
+}, (t) => [
+  unique('improved_prompts_scope_unique').on(t.basePromptKey, t.scope, t.scopeValue)
+])
+
+export const chapterRevisions = sqliteTable('chapter_revisions', {
+  id: text('id').primaryKey(),
+  // No FK on chapter_id: revisions must outlive the chapter row so deleted prose stays recoverable
+  chapterId: text('chapter_id').notNull(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  title: text('title').default(''),
+  summary: text('summary').default(''),
+  content: text('content').default(''),
+  beats: text('beats').default('[]'),
+  wordCount: integer('word_count').default(0),
+  source: text('source').default('save'), // 'save' | 'restore'
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`)
+})
+
+export const promptVersions = sqliteTable('prompt_versions', {
+  id: text('id').primaryKey(),
+  // No FK: improved_prompts rows are deleted explicitly together with their versions
+  promptId: text('prompt_id').notNull(),
+  version: integer('version').notNull(),
+  improvedPrompt: text('improved_prompt').notNull(),
+  score: integer('score').default(0), // Stored x100 like improved_prompts.score
+  mutations: text('mutations').default('[]'),
+  sampleOutput: text('sample_output').default(''),
+  model: text('model').default(''),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`)
+})
+
+export const notes = sqliteTable('notes', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  title: text('title').notNull(),
+  content: text('content').default(''), // Rich text HTML
+  tags: text('tags').default('[]'),
+  chapterIds: text('chapter_ids').default('[]'),
+  characterIds: text('character_ids').default('[]'),
+  termIds: text('term_ids').default('[]'),
+  includeInContext: integer('include_in_context', { mode: 'boolean' }).default(false),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' })
+})
+
+// Files attached to a note. The file itself is a copy under userData/attachments/<project id>/
+export const noteAttachments = sqliteTable('note_attachments', {
+  id: text('id').primaryKey(),
+  // No FK: attachments follow their note into the trash and are deleted with it on purge
+  noteId: text('note_id').notNull(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  fileName: text('file_name').notNull(), // Name of the file the user picked
+  storedName: text('stored_name').notNull(), // Name of the copy inside the project's attachments folder
+  sizeBytes: integer('size_bytes').default(0),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`)
+})
+
+// Directed edge between two characters: "from" is `type` (and `description`) of "to"
+export const characterRelationships = sqliteTable('character_relationships', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  // No FKs: characters are soft-deleted, and a trashed character's edges come back with it
+  fromCharacterId: text('from_character_id').notNull(),
+  toCharacterId: text('to_character_id').notNull(),
+  type: text('type').default('other'),
+  description: text('description').default(''),
+  changesInChapterId: text('changes_in_chapter_id') // Chapter where the relationship turns, if any
+})
+
+// A point on the story's own calendar. Its position is `offset_days` after the anchor
+// event, or after day 0 of the story when it has none; `date_label` is how the book names it.
+export const timelineEvents = sqliteTable('timeline_events', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  title: text('title').notNull(),
+  description: text('description').default(''),
+  dateLabel: text('date_label').default(''), // In-world date, e.g. "3rd of Frostmonth, 412"
+  anchorEventId: text('anchor_event_id'), // No FK: deleting an anchor re-anchors its dependents
+  offsetDays: real('offset_days').default(0),
+  chapterIds: text('chapter_ids').default('[]'),
+  characterIds: text('character_ids').default('[]')
+})
+
+// Comment on a passage of a chapter. The passage carries a `comment` mark whose
+// `data-comment-id` is `anchor_id`; replies share their thread's anchor and name it in `parent_id`.
+export const comments = sqliteTable('comments', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  // No FK: comments follow their chapter into the trash and are deleted with it on purge
+  chapterId: text('chapter_id').notNull(),
+  anchorId: text('anchor_id').notNull(),
+  parentId: text('parent_id'), // Null for the comment that opens the thread
+  body: text('body').default(''),
+  quote: text('quote').default(''), // Text the thread was anchored to when it was opened
+  status: text('status').default('open'), // 'open' | 'resolved', kept on the thread's first comment
+  source: text('source').default('user'), // 'user' | 'continuity'
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' })
+})
+
+// A stretch of writing in one chapter, closed after a pause. Words are counted from
+// before/after diffs of the text, split by whether the writer or the AI put them there.
+export const writingSessions = sqliteTable('writing_sessions', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  // No FK: the history stays honest after a chapter is deleted
+  chapterId: text('chapter_id').notNull(),
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull(),
+  endedAt: integer('ended_at', { mode: 'timestamp' }).notNull(), // Last recorded edit
+  humanWordsAdded: integer('human_words_added').default(0),
+  aiWordsAdded: integer('ai_words_added').default(0),
+  wordsRemoved: integer('words_removed').default(0)
+})
+
+// One request to the AI provider: generateText() (including its language retries) or a
+// streamText() run. Prompts are kept as hashes; the full text only with the setting on.
+export const aiCalls = sqliteTable('ai_calls', {
+  id: text('id').primaryKey(),
+  // No FK: calls made with no project open are kept with a null project
+  projectId: text('project_id'),
+  chapterId: text('chapter_id'),
+  operation: text('operation').notNull(),
+  promptKey: text('prompt_key'), // Key of the stock or improved system prompt, when the call used one
+  provider: text('provider').default('openrouter'),
+  model: text('model').notNull(),
+  streamed: integer('streamed', { mode: 'boolean' }).default(false),
+  systemHash: text('system_hash').notNull(), // SHA-256 of the prompt as sent
+  userHash: text('user_hash').notNull(),
+  systemPrompt: text('system_prompt'),
+  userPrompt: text('user_prompt'),
+  promptTokens: integer('prompt_tokens'), // Null when the provider reported no usage
+  completionTokens: integer('completion_tokens'),
+  totalTokens: integer('total_tokens'),
+  cost: real('cost'), // USD, as reported by OpenRouter or worked out from the model's pricing
+  latencyMs: integer('latency_ms').default(0),
+  retries: integer('retries').default(0),
+  outcome: text('outcome').notNull(), // 'success' | 'non-english' | 'aborted' | 'error'
+  error: text('error'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull()
 })
@@ -11,7 +11,7 @@ app.use(router)
 
 app.mount('#app').$nextTick(() => {
   // Use contextBridge
-  window.ipcRenderer.on('main-process-message', (_event, message) => {
+  window.ipc.on('main-process-message', (message) => {
     console.log(message)
   })
 })
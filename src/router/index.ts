@@ -2,14 +2,26 @@ import { createRouter, createWebHashHistory } from 'vue-router'
 import EditorView from '../views/EditorView.vue'
 import OutlineView from '../views/OutlineView.vue'
 import CharactersView from '../views/CharactersView.vue'
+import NotesView from '../views/NotesView.vue'
+import TimelineView from '../views/TimelineView.vue'
+import StatsView from '../views/StatsView.vue'
+import AiLogView from '../views/AiLogView.vue'
 import SettingsView from '../views/SettingsView.vue'
+import SearchView from '../views/SearchView.vue'
+import TrashView from '../views/TrashView.vue'
 
 const routes = [
   { path: '/', redirect: '/editor' },
   { path: '/editor', component: EditorView },
   { path: '/outline', component: OutlineView },
   { path: '/characters', component: CharactersView },
+  { path: '/timeline', component: TimelineView },
+  { path: '/notes', component: NotesView },
+  { path: '/stats', component: StatsView },
+  { path: '/ai-log', component: AiLogView },
+  { path: '/search', component: SearchView },
   { path: '/settings', component: SettingsView },
+  { path: '/trash', component: TrashView },
 ]
 
 const router = createRouter({
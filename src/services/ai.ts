@@ -1,6 +1,12 @@
-import OpenAI from 'openai'
 import { useSettingsStore } from '../stores/settings'
 import { useProjectStore } from '../stores/project'
+import { usePromptStore, type PromptKey } from '../stores/prompts'
+import { useAiCallStore, type AiCallOutcome } from '../stores/aiCalls'
+import { useBudgetStore, startRun, type AiRun } from '../stores/budget'
+import { AI_PROMPTS } from '../constants/prompts'
+import { estimateTokens, priceTokens } from './tokens'
+
+export type { AiProvider, AiProviderKind } from './providers'
 
 const ENGLISH_ENFORCEMENT = `
 CRITICAL LANGUAGE REQUIREMENT: You MUST write ONLY in English. 
@@ -38,26 +44,271 @@ function containsNonEnglish(text: string): boolean {
   return (matches?.length || 0) > 5
 }
 
+/**
+ * What a call is for, recorded with it in the AI log
+ */
+export interface AiCallOptions {
+  operation?: string // Defaults to the prompt key, e.g. 'chapter-summarizer'
+  chapterId?: string
+  promptKey?: PromptKey // Looked up from the system prompt when omitted
+  maxRetries?: number // Extra attempts when the reply isn't in English (generateText only)
+  signal?: AbortSignal // Stops the call; it then rejects with an AbortError (see isAbortError)
+  run?: AiRun // The batch or GEPA run the call belongs to, for the per-operation cap; alone it is its own operation
+  expectedReplyTokens?: number // Reply length priced by the cap check; defaults to the route's max tokens, else DEFAULT_REPLY_TOKENS
+}
+
+export interface AiChatMessage {
+  role: 'system' | 'user'
+  content: string
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high'
+
+/**
+ * Sampling settings for a request; anything left out uses the model's own default
+ */
+export interface AiGenerationParams {
+  temperature?: number
+  topP?: number
+  maxTokens?: number // Longest reply allowed
+  reasoningEffort?: ReasoningEffort // For models that think before answering; ignored by the rest
+}
+
+export interface AiChatRequest {
+  requestId: string // Lets the request be cancelled with 'ai-cancel'
+  providerId: string // See services/providers
+  model: string
+  messages: AiChatMessage[]
+  params?: AiGenerationParams
+}
+
+// Usage as OpenRouter reports it; `cost` is in USD
+export interface AiUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+  total_tokens?: number
+  cost?: number
+}
+
+/**
+ * Why a request failed, as sorted by the main process (electron/ai-errors.ts)
+ */
+export type AiErrorKind = 'auth' | 'quota' | 'rate-limit' | 'context-length' | 'content-filter' | 'transient' | 'network' | 'unknown'
+
+export interface AiFailure {
+  kind: AiErrorKind
+  status?: number // HTTP status, when the provider answered
+  message: string // What went wrong and what to do about it, ready to show
+}
+
+/**
+ * A request the provider (or the way to it) failed, after any retries
+ */
+export class AiRequestError extends Error {
+  constructor(public failure: AiFailure) {
+    super(failure.message)
+    this.name = 'AiRequestError'
+  }
+
+  get kind(): AiErrorKind {
+    return this.failure.kind
+  }
+}
+
+/**
+ * Alert text for a failed AI action: the specific reason when the request itself failed,
+ * otherwise `fallback` (e.g. for a reply that couldn't be parsed)
+ */
+export function aiErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof AiRequestError ? error.message : fallback
+}
+
+interface CallUsage {
+  promptTokens: number | null
+  completionTokens: number | null
+  totalTokens: number | null
+  cost: number | null
+}
+
+interface PendingCall {
+  projectId: string | null
+  chapterId?: string
+  operation: string
+  promptKey?: PromptKey
+  providerId: string
+  model: string
+  params: AiGenerationParams
+  streamed: boolean
+  systemPrompt: string
+  userPrompt: string
+  run: AiRun
+  createdAt: string
+  startedAt: number
+}
+
+const NO_USAGE: CallUsage = { promptTokens: null, completionTokens: null, totalTokens: null, cost: null }
+
+// Reply length assumed by the cap check when neither the caller nor the route says
+const DEFAULT_REPLY_TOKENS = 1000
+
+// Most callers pass promptStore.getPrompt(KEY) straight through, so the key is recovered from the text
+function findPromptKey(systemPrompt: string | undefined): PromptKey | undefined {
+  if (!systemPrompt) return undefined
+  const promptStore = usePromptStore()
+  return (Object.keys(AI_PROMPTS) as PromptKey[])
+    .find(key => promptStore.getPrompt(key) === systemPrompt || AI_PROMPTS[key] === systemPrompt)
+}
+
+/**
+ * Starts timing a call, after pausing at a spending cap if the prompt and its expected
+ * reply would go past one. Rejects with an AbortError when the user chooses to stop there.
+ */
+async function beginCall(
+  options: AiCallOptions,
+  customSystemPrompt: string | undefined,
+  systemPrompt: string,
+  userPrompt: string,
+  streamed: boolean
+): Promise<PendingCall> {
+  const settings = useSettingsStore()
+  const project = useProjectStore()
+  const promptKey = options.promptKey ?? findPromptKey(customSystemPrompt)
+  // The routing table in Settings may send this prompt to another model, with its own sampling
+  const { providerId, model, params } = settings.resolveRoute(promptKey)
+  const run = options.run ?? startRun()
+
+  // The reply can't run past the route's limit, as in the batch estimate
+  const expectedReply = options.expectedReplyTokens ?? params.maxTokens ?? DEFAULT_REPLY_TOKENS
+  const replyTokens = params.maxTokens ? Math.min(expectedReply, params.maxTokens) : expectedReply
+  await settings.loadPricing(providerId)
+  const pricing = settings.pricingFor(providerId, model)
+  const expectedCost = pricing ? priceTokens(pricing, estimateTokens(systemPrompt + userPrompt), replyTokens) : 0
+  await useBudgetStore().checkBudget(run, expectedCost)
+
+  return {
+    projectId: project.currentProjectId,
+    chapterId: options.chapterId,
+    operation: options.operation || (promptKey ? promptKey.toLowerCase().replace(/_/g, '-') : 'general'),
+    promptKey,
+    providerId,
+    model,
+    params,
+    streamed,
+    systemPrompt,
+    userPrompt,
+    run,
+    createdAt: new Date().toISOString(),
+    startedAt: performance.now()
+  }
+}
+
+function addUsage(total: CallUsage, usage: AiUsage | null): CallUsage {
+  if (!usage) return total
+  const add = (sum: number | null, value: unknown) => typeof value === 'number' ? (sum ?? 0) + value : sum
+  return {
+    promptTokens: add(total.promptTokens, usage.prompt_tokens),
+    completionTokens: add(total.completionTokens, usage.completion_tokens),
+    totalTokens: add(total.totalTokens, usage.total_tokens),
+    cost: add(total.cost, usage.cost)
+  }
+}
+
+function abortError(): DOMException {
+  return new DOMException('The AI request was stopped', 'AbortError')
+}
+
+/**
+ * True for the error a call rejects with when its signal aborts, so callers can
+ * tell "stopped by the user" apart from a failure worth reporting
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Tells the main process to stop a request nobody is waiting for any more
+function cancelRequest(requestId: string) {
+  window.ipc.invoke('ai-cancel', requestId).catch(err => {
+    console.error('Failed to cancel AI request:', err)
+  })
+}
+
+/**
+ * Settles like `request`, except that it rejects with an AbortError as soon as
+ * `signal` aborts, cancelling the request in the main process
+ */
+function untilAborted<T>(request: Promise<T>, requestId: string, signal?: AbortSignal): Promise<T> {
+  if (!signal) return request
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      cancelRequest(requestId)
+      reject(abortError())
+    }
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+    request.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+// OpenRouter reports what a call cost; for other providers it's worked out from the model's price, when known
+function callCost(call: PendingCall, usage: CallUsage): number | null {
+  if (usage.cost !== null) return usage.cost
+  const pricing = useSettingsStore().pricingFor(call.providerId, call.model)
+  if (!pricing || usage.promptTokens === null || usage.completionTokens === null) return null
+  return priceTokens(pricing, usage.promptTokens, usage.completionTokens)
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Writes the finished call to the AI log. Never throws: a failed write loses the
+ * log entry, not the generation.
+ */
+async function logCall(
+  call: PendingCall,
+  result: { usage: CallUsage; retries: number; outcome: AiCallOutcome; error?: unknown }
+) {
+  try {
+    const settings = useSettingsStore()
+    const cost = callCost(call, result.usage)
+    call.run.spent += cost ?? 0
+    useBudgetStore().recordSpend(call.projectId, cost ?? 0)
+    useAiCallStore().recordCall(call.projectId, {
+      id: crypto.randomUUID(),
+      chapterId: call.chapterId,
+      operation: call.operation,
+      promptKey: call.promptKey,
+      provider: call.providerId,
+      model: call.model,
+      streamed: call.streamed,
+      systemHash: await sha256(call.systemPrompt),
+      userHash: await sha256(call.userPrompt),
+      systemPrompt: settings.logFullPrompts ? call.systemPrompt : undefined,
+      userPrompt: settings.logFullPrompts ? call.userPrompt : undefined,
+      ...result.usage,
+      cost,
+      latencyMs: Math.round(performance.now() - call.startedAt),
+      retries: result.retries,
+      outcome: result.outcome,
+      error: result.error === undefined ? undefined : result.error instanceof Error ? result.error.message : String(result.error),
+      createdAt: call.createdAt
+    })
+  } catch (err) {
+    console.error('Failed to log AI call:', err)
+  }
+}
+
 export async function generateText(
   prompt: string | string[], 
   selectedText: string, 
   contextMode: 'paragraph' | 'selection' | 'outline' = 'selection',
   customSystemPrompt?: string,
-  maxRetries: number = 2
+  options: AiCallOptions = {}
 ): Promise<string> {
-  const settings = useSettingsStore()
   const project = useProjectStore()
 
-  if (!settings.openRouterKey) {
-    throw new Error('OpenRouter API Key is missing. Please check settings.')
-  }
-
-  const client = new OpenAI({
-    baseURL: 'https://openrouter.ai/api/v1',
-    apiKey: settings.openRouterKey,
-    dangerouslyAllowBrowser: true // Since we are in Electron/Client-side app
-  })
-
   // Build context from outline and characters
   const characterContext = project.characterOutline.map(c => `${c.name} (${c.role}): ${c.traits}`).join('\n')
   const storyContext = project.storyOutline.map(c => `${c.title}: ${c.summary}`).join('\n')
@@ -92,12 +343,17 @@ export async function generateText(
     userMessage = promptPayload
   }
 
+  const maxRetries = options.maxRetries ?? 2
+  const call = await beginCall(options, customSystemPrompt, systemPrompt, userMessage, false)
+  let usage = NO_USAGE
   let lastResult = ''
+  // Retries the main process made after transient failures, on top of the non-English ones here
+  let transportRetries = 0
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       const isRetry = attempt > 0
-      const messages: Array<{ role: 'system' | 'user'; content: string }> = [
+      const messages: AiChatMessage[] = [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: isRetry 
           ? `${userMessage}\n\nIMPORTANT: Your previous response contained non-English characters. Please respond ONLY in English using Latin alphabet.`
@@ -105,23 +361,36 @@ export async function generateText(
         }
       ]
       
-      const response = await client.chat.completions.create({
-        model: settings.selectedModel,
-        messages,
-      })
+      // The request is made by the main process, which holds the provider's key
+      const requestId = crypto.randomUUID()
+      const response = await untilAborted(
+        window.ipc.invoke('ai-complete', { requestId, providerId: call.providerId, model: call.model, messages, params: call.params }),
+        requestId,
+        options.signal
+      )
+      transportRetries += response.retries
+      if ('failure' in response) throw new AiRequestError(response.failure)
+      usage = addUsage(usage, response.usage)
 
-      const result = response.choices[0]?.message?.content || ''
+      const result = response.content
       lastResult = result
       
       // Check for non-English content
-      if (containsNonEnglish(result)) {
+      const nonEnglish = containsNonEnglish(result)
+      if (nonEnglish) {
         console.warn(`Attempt ${attempt + 1}: Non-English characters detected, retrying...`)
         if (attempt < maxRetries) continue
       }
       
+      logCall(call, { usage, retries: attempt + transportRetries, outcome: nonEnglish ? 'non-english' : 'success' })
       return result
     } catch (error) {
+      if (isAbortError(error)) {
+        logCall(call, { usage, retries: attempt + transportRetries, outcome: 'aborted' })
+        throw error
+      }
       console.error('AI Generation Error:', error)
+      logCall(call, { usage, retries: attempt + transportRetries, outcome: 'error', error })
       throw error
     }
   }
@@ -134,21 +403,11 @@ export async function generateText(
 export async function* streamText(
   prompt: string | string[], 
   contextMode: 'outline' | 'general',
-  customSystemPrompt?: string
+  customSystemPrompt?: string,
+  options: AiCallOptions = {}
 ): AsyncGenerator<string> {
-  const settings = useSettingsStore()
   const project = useProjectStore()
 
-  if (!settings.openRouterKey) {
-    throw new Error('OpenRouter API Key is missing')
-  }
-
-  const client = new OpenAI({
-    baseURL: 'https://openrouter.ai/api/v1',
-    apiKey: settings.openRouterKey,
-    dangerouslyAllowBrowser: true
-  })
-
   // Simplified context build for streaming to avoid huge prompts
   const characterContext = project.characterOutline.map(c => `${c.name} (${c.role})`).join(', ')
   
@@ -157,17 +416,66 @@ export async function* streamText(
 
   const promptPayload = Array.isArray(prompt) ? buildUserPrompt(prompt) : prompt
 
-  const stream = await client.chat.completions.create({
-    model: settings.selectedModel,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: promptPayload }
-    ],
-    stream: true
+  const call = await beginCall(options, customSystemPrompt, systemPrompt, promptPayload, true)
+  let usage = NO_USAGE
+  let retries = 0
+  // Stays 'aborted' if the caller stops reading, or the signal aborts, before the stream ends
+  let outcome: AiCallOutcome = 'aborted'
+  let failure: unknown
+
+  // The main process makes the request and pushes the text back as events tagged with this ID
+  const requestId = crypto.randomUUID()
+  const received: string[] = []
+  let ended = false
+  let wake: (() => void) | null = null
+  const stopListening = window.ipc.on('ai-stream-chunk', chunk => {
+    if (chunk.requestId !== requestId) return
+    received.push(chunk.content)
+    wake?.()
   })
+  const onAbort = () => wake?.()
+  options.signal?.addEventListener('abort', onAbort)
 
-  for await (const chunk of stream) {
-    const content = chunk.choices[0]?.delta?.content || ''
-    if (content) yield content
+  try {
+    if (options.signal?.aborted) throw abortError()
+    const finished = window.ipc.invoke('ai-stream', {
+      requestId,
+      providerId: call.providerId,
+      model: call.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: promptPayload }
+      ],
+      params: call.params
+    })
+    finished.then(() => { ended = true; wake?.() }, () => { ended = true; wake?.() })
+
+    while (received.length || !ended) {
+      // Text not yet yielded is dropped; the caller decides what to do with what it already has
+      if (options.signal?.aborted) throw abortError()
+      if (received.length) {
+        yield received.shift()!
+        continue
+      }
+      await new Promise<void>(resolve => { wake = resolve })
+      wake = null
+    }
+    const result = await finished
+    retries = result.retries
+    if ('failure' in result) throw new AiRequestError(result.failure)
+    usage = addUsage(usage, result.usage)
+    outcome = 'success'
+  } catch (error) {
+    if (!isAbortError(error)) {
+      outcome = 'error'
+      failure = error
+    }
+    throw error
+  } finally {
+    stopListening()
+    options.signal?.removeEventListener('abort', onAbort)
+    // Stops the provider when the caller stopped reading or aborted mid-stream
+    if (!ended) cancelRequest(requestId)
+    logCall(call, { usage, retries, outcome, error: failure })
   }
 }
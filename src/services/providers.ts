@@ -0,0 +1,71 @@
+/**
+ * LLM providers. OpenRouter, OpenAI and Anthropic are built in; any server that speaks
+ * the OpenAI chat API (Ollama, llama.cpp, LM Studio, ...) can be added as an
+ * 'openai-compatible' provider. The main process keeps the configs and their keys and
+ * makes the requests; the renderer picks a provider and model by ID.
+ */
+
+export type AiProviderKind = 'openrouter' | 'openai' | 'anthropic' | 'openai-compatible'
+
+export interface AiProvider {
+  id: string
+  kind: AiProviderKind
+  name: string
+  baseUrl: string
+  headers: Record<string, string> // Extra headers sent with every request
+  models: string[] // Offered in the model picker; any other model ID can still be typed in
+}
+
+export const DEFAULT_PROVIDER_ID = 'openrouter'
+
+export const BUILT_IN_PROVIDERS: AiProvider[] = [
+  {
+    id: 'openrouter',
+    kind: 'openrouter',
+    name: 'OpenRouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    headers: {},
+    models: [
+      'moonshotai/kimi-linear-48b-a3b-instruct',
+      'moonshotai/kimi-k2-thinking',
+      'google/gemini-3-pro-preview',
+      'anthropic/claude-3-opus',
+      'anthropic/claude-3-sonnet',
+      'meta-llama/llama-3-70b-instruct',
+      'openai/gpt-4-turbo',
+      'mistralai/mistral-large'
+    ]
+  },
+  {
+    id: 'openai',
+    kind: 'openai',
+    name: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    headers: {},
+    models: ['gpt-4.1', 'gpt-4.1-mini', 'gpt-4o', 'gpt-4o-mini']
+  },
+  {
+    id: 'anthropic',
+    kind: 'anthropic',
+    name: 'Anthropic',
+    baseUrl: 'https://api.anthropic.com/v1',
+    headers: {},
+    models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-3-5-haiku-latest']
+  }
+]
+
+// Default addresses of common local servers, offered when adding a provider
+export const LOCAL_SERVER_PRESETS: Array<{ name: string; baseUrl: string }> = [
+  { name: 'Ollama', baseUrl: 'http://localhost:11434/v1' },
+  { name: 'LM Studio', baseUrl: 'http://localhost:1234/v1' },
+  { name: 'llama.cpp', baseUrl: 'http://localhost:8080/v1' }
+]
+
+export function isBuiltInProvider(id: string): boolean {
+  return BUILT_IN_PROVIDERS.some(p => p.id === id)
+}
+
+// Local servers usually run without a key
+export function providerNeedsKey(provider: AiProvider): boolean {
+  return provider.kind !== 'openai-compatible'
+}
@@ -0,0 +1,46 @@
+/**
+ * Token counts and prices for planning AI work before it runs. Counts come from the
+ * model's tokenizer where one is available (OpenAI's BPE encodings, run locally;
+ * llama.cpp's /tokenize; Anthropic's count_tokens), otherwise from estimateTokens.
+ */
+
+// USD per token, the unit OpenRouter's model list uses
+export interface ModelPricing {
+  prompt: number
+  completion: number
+}
+
+// Letters from scripts that tokenizers split about one per character: CJK, Thai, Arabic, ...
+const DENSE_SCRIPT = /[؀-ۿ฀-๿぀-ヿ一-鿿가-힯]/g
+
+/**
+ * Rough count for when no tokenizer is available: about 4 characters per token for
+ * English prose, one per character for dense scripts
+ */
+export function estimateTokens(text: string): number {
+  const dense = text.match(DENSE_SCRIPT)?.length || 0
+  return Math.ceil((text.length - dense) / 4 + dense)
+}
+
+/**
+ * Counts `text` with the provider's tokenizer, falling back to estimateTokens when it
+ * has none or can't be reached. Never throws.
+ */
+export async function countTokens(text: string, providerId: string, model: string): Promise<{ tokens: number; exact: boolean }> {
+  try {
+    const tokens = await window.ipc.invoke('ai-count-tokens', { providerId, model, text })
+    if (tokens !== null) return { tokens, exact: true }
+  } catch (err) {
+    console.warn('Failed to count tokens, estimating instead:', err)
+  }
+  return { tokens: estimateTokens(text), exact: false }
+}
+
+export function priceTokens(pricing: ModelPricing, promptTokens: number, completionTokens: number): number {
+  return promptTokens * pricing.prompt + completionTokens * pricing.completion
+}
+
+export function formatCost(cost: number | null): string {
+  if (cost === null) return '—'
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
@@ -0,0 +1,62 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+export type AiCallOutcome = 'success' | 'non-english' | 'aborted' | 'error'
+
+export interface AiCallRecord {
+  id: string
+  chapterId?: string
+  operation: string // What the call was for, e.g. 'chapter-draft'; see AiCallOptions in services/ai
+  promptKey?: string
+  provider: string // Provider ID, see services/providers
+  model: string
+  streamed: boolean
+  systemHash: string
+  userHash: string
+  systemPrompt?: string // Full prompts are only kept with "Log full prompts" on
+  userPrompt?: string
+  promptTokens: number | null
+  completionTokens: number | null
+  totalTokens: number | null
+  cost: number | null // USD
+  latencyMs: number
+  retries: number // Extra requests: after transient failures, and after a reply came back in the wrong language
+  outcome: AiCallOutcome
+  error?: string
+  createdAt: string
+}
+
+export const useAiCallStore = defineStore('aiCalls', () => {
+  // Log of the project last loaded with loadCalls(), newest first; new calls are prepended
+  const calls = ref<AiCallRecord[]>([])
+  const callsProjectId = ref<string | null>(null)
+  const isLoading = ref(false)
+
+  async function loadCalls(projectId: string) {
+    isLoading.value = true
+    try {
+      calls.value = await window.ipc.invoke('db-list-ai-calls', projectId)
+      callsProjectId.value = projectId
+    } catch (err) {
+      console.error('Failed to load AI calls:', err)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  // Never throws: a failed write loses the log entry, not the generation
+  function recordCall(projectId: string | null, call: AiCallRecord) {
+    if (projectId && callsProjectId.value === projectId) calls.value.unshift(call)
+    window.ipc.invoke('db-insert-ai-call', { projectId, call }).catch(err => {
+      console.error('Failed to save AI call:', err)
+    })
+  }
+
+  return {
+    calls,
+    callsProjectId,
+    isLoading,
+    loadCalls,
+    recordCall
+  }
+})
@@ -0,0 +1,72 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+export interface BackupInfo {
+  fileName: string
+  reason: 'launch' | 'interval' | 'manual' | 'pre-migration' | 'pre-restore'
+  createdAt: string
+  sizeBytes: number
+}
+
+export interface BackupSettings {
+  intervalMinutes: number
+  keepHourly: number
+  keepDaily: number
+}
+
+export const useBackupStore = defineStore('backups', () => {
+  const backups = ref<BackupInfo[]>([])
+  const settings = ref<BackupSettings>({ intervalMinutes: 15, keepHourly: 24, keepDaily: 14 })
+  const isLoading = ref(false)
+  const isBackingUp = ref(false)
+
+  async function loadBackups() {
+    isLoading.value = true
+    try {
+      const [list, current] = await Promise.all([
+        window.ipc.invoke('backup-list'),
+        window.ipc.invoke('backup-get-settings')
+      ])
+      backups.value = list
+      settings.value = current
+    } catch (err) {
+      console.error('Failed to load backups:', err)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  async function backupNow() {
+    isBackingUp.value = true
+    try {
+      await window.ipc.invoke('backup-create')
+      backups.value = await window.ipc.invoke('backup-list')
+    } finally {
+      isBackingUp.value = false
+    }
+  }
+
+  async function updateSettings(data: Partial<BackupSettings>) {
+    settings.value = await window.ipc.invoke('backup-set-settings', { ...settings.value, ...data })
+    // Retention may have pruned files
+    backups.value = await window.ipc.invoke('backup-list')
+  }
+
+  /**
+   * Replaces the database with a backup. The app relaunches once the file is swapped.
+   */
+  async function restoreBackup(fileName: string) {
+    await window.ipc.invoke('backup-restore', fileName)
+  }
+
+  return {
+    backups,
+    settings,
+    isLoading,
+    isBackingUp,
+    loadBackups,
+    backupNow,
+    updateSettings,
+    restoreBackup
+  }
+})
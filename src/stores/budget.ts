@@ -0,0 +1,162 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { useProjectStore } from './project'
+import { useSettingsStore } from './settings'
+import { countTokens, priceTokens, formatCost } from '../services/tokens'
+import type { PromptKey } from './prompts'
+
+/**
+ * One operation for the per-operation cap: a batch, a GEPA run, or a call made on its own
+ */
+export interface AiRun {
+  spent: number // USD of the calls made so far
+  // Set once the user chose to carry on past a cap, so the run isn't paused for it again
+  pastOperationCap: boolean
+  pastMonthlyCap: boolean
+}
+
+export function startRun(): AiRun {
+  return { spent: 0, pastOperationCap: false, pastMonthlyCap: false }
+}
+
+/**
+ * A call a run is expected to make, for estimating the run before it starts
+ */
+export interface PlannedCall {
+  promptKey?: PromptKey // Picks the model the call is routed to; see the routing table in settings
+  prompt: string[] // Parts known up front, e.g. the system prompt and the chapter context; repeated parts are counted once
+  extraPromptTokens?: number // Prompt text earlier calls will write, e.g. the draft a reflection reviews
+  completionTokens: number // Expected length of the reply
+}
+
+export interface RunEstimate {
+  promptTokens: number
+  completionTokens: number
+  cost: number | null // Null when the price of a model the run uses isn't known
+  exact: boolean // Every prompt part was counted by the provider's tokenizer
+}
+
+function monthStart(): Date {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), 1)
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}`
+
+// Rejects like a stopped call, so runs end the way their Stop button ends them
+function budgetStop(): DOMException {
+  return new DOMException('Stopped at the spending cap', 'AbortError')
+}
+
+export const useBudgetStore = defineStore('budget', () => {
+  const projectStore = useProjectStore()
+  const settingsStore = useSettingsStore()
+
+  // This calendar month's spend for the project last loaded with loadMonthSpend()
+  const monthSpend = ref(0)
+  const spendProjectId = ref<string | null>(null)
+  const spendMonth = ref('')
+
+  // Caps of the open project, in USD; 0 means no cap
+  const monthlyCap = computed(() => projectStore.bookMetadata.monthlyBudget || 0)
+  const operationCap = computed(() => projectStore.bookMetadata.operationBudget || 0)
+
+  // Resolves false when the spend couldn't be read; the previous total is then kept
+  async function loadMonthSpend(projectId: string): Promise<boolean> {
+    const start = monthStart()
+    try {
+      monthSpend.value = await window.ipc.invoke('db-ai-spend', { projectId, since: start.toISOString() })
+      spendProjectId.value = projectId
+      spendMonth.value = monthKey(start)
+      return true
+    } catch (err) {
+      console.error('Failed to load AI spend:', err)
+      return false
+    }
+  }
+
+  // Keeps the loaded total current as calls are logged, rather than asking the database each time
+  function recordSpend(projectId: string | null, cost: number) {
+    if (projectId && projectId === spendProjectId.value && spendMonth.value === monthKey(monthStart())) {
+      monthSpend.value += cost
+    }
+  }
+
+  /**
+   * What a run is expected to cost, each call priced for the model it's routed to
+   */
+  async function estimate(calls: PlannedCall[]): Promise<RunEstimate> {
+    // Counts by model, then text, since tokenizers differ
+    const counted = new Map<string, Map<string, Awaited<ReturnType<typeof countTokens>>>>()
+    const total: RunEstimate = { promptTokens: 0, completionTokens: 0, cost: 0, exact: true }
+    for (const call of calls) {
+      const { providerId, model, params } = settingsStore.resolveRoute(call.promptKey)
+      const modelKey = `${providerId}:${model}`
+      if (!counted.has(modelKey)) counted.set(modelKey, new Map())
+      const counts = counted.get(modelKey)!
+
+      let promptTokens = call.extraPromptTokens || 0
+      for (const part of call.prompt) {
+        let count = counts.get(part)
+        if (!count) {
+          count = await countTokens(part, providerId, model)
+          counts.set(part, count)
+        }
+        promptTokens += count.tokens
+        total.exact = total.exact && count.exact
+      }
+      // A reply can't run past the route's limit
+      const completionTokens = params.maxTokens ? Math.min(call.completionTokens, params.maxTokens) : call.completionTokens
+
+      await settingsStore.loadPricing(providerId)
+      const pricing = settingsStore.pricingFor(providerId, model)
+      total.promptTokens += promptTokens
+      total.completionTokens += completionTokens
+      total.cost = pricing && total.cost !== null ? total.cost + priceTokens(pricing, promptTokens, completionTokens) : null
+    }
+    return total
+  }
+
+  /**
+   * Called before each request: pauses when the run, or the project's month, would go past
+   * its cap, and asks whether to carry on. Throws an AbortError if not.
+   */
+  async function checkBudget(run: AiRun, nextCost: number) {
+    const projectId = projectStore.currentProjectId
+    if (!projectId) return
+
+    if (operationCap.value > 0 && !run.pastOperationCap && run.spent + nextCost > operationCap.value) {
+      if (!confirm(`This operation has cost ${formatCost(run.spent)} so far and is about to pass this project's per-operation cap of ${formatCost(operationCap.value)}.\n\nContinue anyway?`)) {
+        throw budgetStop()
+      }
+      run.pastOperationCap = true
+    }
+
+    if (monthlyCap.value > 0 && !run.pastMonthlyCap) {
+      const isLoaded = spendProjectId.value === projectId && spendMonth.value === monthKey(monthStart())
+      // Without this month's spend the cap can't be checked, so the user decides rather than the cap lapsing
+      if (!isLoaded && !(await loadMonthSpend(projectId))) {
+        if (!confirm(`This project's AI spend for this month couldn't be read, so its monthly cap of ${formatCost(monthlyCap.value)} can't be checked.\n\nContinue anyway?`)) {
+          throw budgetStop()
+        }
+        run.pastMonthlyCap = true
+      } else if (monthSpend.value + nextCost > monthlyCap.value) {
+        if (!confirm(`This project's AI calls have cost ${formatCost(monthSpend.value)} this month, against a monthly cap of ${formatCost(monthlyCap.value)}.\n\nContinue anyway?`)) {
+          throw budgetStop()
+        }
+        run.pastMonthlyCap = true
+      }
+    }
+  }
+
+  return {
+    monthSpend,
+    spendProjectId,
+    monthlyCap,
+    operationCap,
+    loadMonthSpend,
+    recordSpend,
+    estimate,
+    checkBudget
+  }
+})
@@ -1,5 +1,6 @@
 import { defineStore } from 'pinia'
-import { ref, toRaw } from 'vue'
+import { ref, toRaw, watch } from 'vue'
+import { joinSceneContent, splitSceneContent } from '../db/scenes'
 
 export interface StoryBeat {
   id: string
@@ -17,6 +18,38 @@ export interface StoryBible {
   worldRules: string
 }
 
+// A unit of action inside a chapter; the chapter's prose is its scenes joined in order
+export interface StoryScene {
+  id: string
+  title: string
+  povCharacterId?: string
+  location?: string
+  goal?: string // What the POV character wants in this scene
+  conflict?: string // What stands in the way
+  outcome?: string // How the scene turns: win, loss, or a complication
+  beats?: StoryBeat[]
+  content?: string
+  summary?: string // Dense summary of the scene's prose, for context reuse
+}
+
+// Where a part sits in the three-act structure the outline prompts reason about
+export type ActRole = 'setup' | 'confrontation' | 'resolution'
+
+export const ACT_ROLE_LABELS: Record<ActRole, string> = {
+  setup: 'Act I: Setup',
+  confrontation: 'Act II: Confrontation',
+  resolution: 'Act III: Resolution'
+}
+
+// A part (or act) of the book. Chapters join one through `partId` and are kept
+// grouped in part order, with chapters outside any part at the end.
+export interface StoryPart {
+  id: string
+  title: string
+  summary: string
+  actRole?: ActRole | ''
+}
+
 // Canonical Chapter contract: kept in sync with DB schema and IPC.
 export interface StoryChapter {
   id: string
@@ -30,9 +63,12 @@ export interface StoryChapter {
   contextSnapshot?: string
   contextTokens?: number
   lastPromptHash?: string
-  content?: string // The actual chapter text
+  content?: string // The actual chapter text; derived from `scenes` when the chapter has any
   characters?: string[] // Array of character IDs
   beats?: StoryBeat[] // Story beats to hit in this chapter
+  scenes?: StoryScene[] // Ordered scenes; saved together with the chapter
+  partId?: string // The part this chapter belongs to, if any
+  originChapterId?: string // Parent project's chapter, when this project is a fork
 }
 
 export interface Character {
@@ -47,6 +83,32 @@ export interface Character {
   voiceMetaphors?: string
 }
 
+export type RelationshipType = 'family' | 'romantic' | 'friend' | 'ally' | 'mentor' | 'rival' | 'enemy' | 'debt' | 'professional' | 'other'
+
+export const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
+  family: 'Family',
+  romantic: 'Romantic',
+  friend: 'Friend',
+  ally: 'Ally',
+  mentor: 'Mentor',
+  rival: 'Rival',
+  enemy: 'Enemy',
+  debt: 'Owes / Owed',
+  professional: 'Professional',
+  other: 'Other'
+}
+
+// A directed edge: the "from" character is `description` of the "to" character
+// (e.g. "estranged sister of"). Edges touching a trashed character are left out of the store.
+export interface CharacterRelationship {
+  id: string
+  fromId: string
+  toId: string
+  type: RelationshipType
+  description: string
+  changesInChapterId?: string // Chapter where the relationship turns
+}
+
 export interface BookMetadata {
   id?: string
   title: string
@@ -56,6 +118,10 @@ export interface BookMetadata {
   logline: string
   synopsis: string
   originalPremise?: string // The prompt used to generate the outline
+  wordGoal?: number // Target manuscript length in words; 0 or unset for no goal
+  goalDeadline?: string // Local date (YYYY-MM-DD) the goal is due
+  monthlyBudget?: number // USD the project's AI calls may cost per calendar month; 0 or unset for no cap
+  operationBudget?: number // USD one batch, GEPA run or single call may cost; 0 or unset for no cap
 }
 
 export interface StoryTerm {
@@ -68,11 +134,193 @@ export interface StoryTerm {
   aliases?: string
 }
 
+// An event on the story's own calendar. Its day is `offsetDays` after its anchor event,
+// or after day 0 of the story when it has none (see resolveEventDays in useTimeline.ts).
+export interface TimelineEvent {
+  id: string
+  title: string
+  description: string
+  dateLabel: string // In-world date as the book names it; display only
+  anchorEventId?: string
+  offsetDays: number // May be negative or fractional (0.5 = half a day)
+  chapters: string[]
+  characters: string[]
+}
+
+export interface NoteAttachment {
+  id: string
+  noteId: string
+  fileName: string
+  sizeBytes: number
+  createdAt: string
+}
+
+// Research material kept beside the manuscript; links point at chapters, characters and terms by ID
+export interface StoryNote {
+  id: string
+  title: string
+  content: string // Rich text HTML
+  tags: string[]
+  chapters: string[]
+  characters: string[]
+  terms: string[]
+  includeInContext: boolean // Offered to the AI when drafting linked (or, with no chapter links, all) chapters
+  attachments?: NoteAttachment[] // Read-only here; changed through addNoteAttachments/deleteNoteAttachment
+  updatedAt?: string
+}
+
+export type CommentStatus = 'open' | 'resolved'
+
+// One comment in a thread on a passage of a chapter. The passage is marked in the chapter
+// text with `data-comment-id` = `anchorId` (see CommentMark in useComments.ts); the first
+// comment of a thread has no `parentId` and holds the thread's quote and status.
+export interface StoryComment {
+  id: string
+  chapterId: string
+  anchorId: string
+  parentId?: string // The thread's first comment, on replies
+  body: string
+  quote: string
+  status: CommentStatus
+  source: 'user' | 'continuity' // 'continuity' for findings filed by the continuity check
+  createdAt: string
+  resolvedAt?: string
+}
+
 export interface ProjectListItem {
   id: string
   title: string
   author: string
   updatedAt: Date | null
+  parentProjectId: string | null // Set when the project is a fork
+  forkedAt: Date | null
+  forkChapterId: string | null // Parent chapter the fork diverges from
+}
+
+// Store-shaped project as returned by db-load-project
+export interface ProjectSnapshot {
+  project: BookMetadata & {
+    storyBible: StoryBible
+    parentProjectId?: string
+    forkedAt?: string
+    forkChapterId?: string
+  }
+  parts: StoryPart[]
+  chapters: StoryChapter[]
+  characters: Character[]
+  relationships: CharacterRelationship[]
+  terms: StoryTerm[]
+  timeline: TimelineEvent[]
+  notes: StoryNote[]
+  comments: StoryComment[]
+}
+
+export interface ChapterRevision {
+  id: string
+  chapterId: string
+  title: string
+  summary: string
+  content?: string // Only present when a single revision is loaded
+  beats?: StoryBeat[]
+  wordCount: number
+  source: 'save' | 'restore'
+  createdAt: string
+}
+
+export interface TrashItem {
+  kind: 'project' | 'chapter' | 'character' | 'term' | 'note'
+  id: string
+  projectId: string
+  projectTitle: string
+  title: string
+  deletedAt: string
+}
+
+export interface SearchResult {
+  kind: 'chapter' | 'character' | 'term'
+  field: 'content' | 'summary' | 'bio' | 'definition'
+  entityId: string
+  title: string
+  snippet: string // Escaped HTML with <mark> around hits
+  rank: number
+}
+
+/**
+ * Entities touched since the last successful save. saveProject() writes only these,
+ * so the cost of a save follows the size of the edit rather than the size of the book.
+ */
+interface PendingChanges {
+  project: boolean
+  chapterOrder: boolean
+  parts: Set<string>
+  chapters: Set<string>
+  characters: Set<string>
+  relationships: Set<string>
+  terms: Set<string>
+  timeline: Set<string>
+  notes: Set<string>
+  comments: Set<string>
+  deletedParts: Set<string>
+  deletedChapters: Set<string>
+  deletedCharacters: Set<string>
+  deletedRelationships: Set<string>
+  deletedTerms: Set<string>
+  deletedTimeline: Set<string>
+  deletedNotes: Set<string>
+  deletedComments: Set<string>
+}
+
+function createPendingChanges(): PendingChanges {
+  return {
+    project: false,
+    chapterOrder: false,
+    parts: new Set(),
+    chapters: new Set(),
+    characters: new Set(),
+    relationships: new Set(),
+    terms: new Set(),
+    timeline: new Set(),
+    notes: new Set(),
+    comments: new Set(),
+    deletedParts: new Set(),
+    deletedChapters: new Set(),
+    deletedCharacters: new Set(),
+    deletedRelationships: new Set(),
+    deletedTerms: new Set(),
+    deletedTimeline: new Set(),
+    deletedNotes: new Set(),
+    deletedComments: new Set()
+  }
+}
+
+function hasPendingChanges(changes: PendingChanges): boolean {
+  return changes.project || changes.chapterOrder
+    || changes.parts.size > 0 || changes.chapters.size > 0 || changes.characters.size > 0 || changes.terms.size > 0 || changes.notes.size > 0
+    || changes.deletedParts.size > 0 || changes.deletedChapters.size > 0 || changes.deletedCharacters.size > 0 || changes.deletedTerms.size > 0
+    || changes.relationships.size > 0 || changes.deletedRelationships.size > 0
+    || changes.timeline.size > 0 || changes.deletedTimeline.size > 0 || changes.deletedNotes.size > 0
+    || changes.comments.size > 0 || changes.deletedComments.size > 0
+}
+
+function mergePendingChanges(target: PendingChanges, source: PendingChanges) {
+  target.project ||= source.project
+  target.chapterOrder ||= source.chapterOrder
+  source.parts.forEach(id => target.parts.add(id))
+  source.chapters.forEach(id => target.chapters.add(id))
+  source.characters.forEach(id => target.characters.add(id))
+  source.relationships.forEach(id => target.relationships.add(id))
+  source.terms.forEach(id => target.terms.add(id))
+  source.timeline.forEach(id => target.timeline.add(id))
+  source.notes.forEach(id => target.notes.add(id))
+  source.comments.forEach(id => target.comments.add(id))
+  source.deletedParts.forEach(id => target.deletedParts.add(id))
+  source.deletedChapters.forEach(id => target.deletedChapters.add(id))
+  source.deletedCharacters.forEach(id => target.deletedCharacters.add(id))
+  source.deletedRelationships.forEach(id => target.deletedRelationships.add(id))
+  source.deletedTerms.forEach(id => target.deletedTerms.add(id))
+  source.deletedTimeline.forEach(id => target.deletedTimeline.add(id))
+  source.deletedNotes.forEach(id => target.deletedNotes.add(id))
+  source.deletedComments.forEach(id => target.deletedComments.add(id))
 }
 
 function sanitizeForClone<T>(value: T): T {
@@ -144,13 +392,27 @@ export const useProjectStore = defineStore('project', () => {
     synopsis: ''
   })
   
+  const storyParts = ref<StoryPart[]>([])
   const storyOutline = ref<StoryChapter[]>([])
   const characterOutline = ref<Character[]>([])
+  const relationships = ref<CharacterRelationship[]>([])
   const terminology = ref<StoryTerm[]>([])
+  const timeline = ref<TimelineEvent[]>([])
+  const notes = ref<StoryNote[]>([])
+  const comments = ref<StoryComment[]>([])
+
+  let pending = createPendingChanges()
+  // True while a project is being loaded so hydration isn't recorded as an edit
+  let isHydrating = false
+
+  // Metadata and bible fields are bound with v-model across the app, so track them by watching
+  watch([bookMetadata, storyBible], () => {
+    if (!isHydrating) pending.project = true
+  }, { deep: true, flush: 'sync' })
 
   async function listProjects(): Promise<ProjectListItem[]> {
     try {
-      const projects = await window.ipcRenderer.invoke('db-list-projects')
+      const projects = await window.ipc.invoke('db-list-projects')
       projectList.value = projects
       return projects
     } catch (err) {
@@ -161,7 +423,7 @@ export const useProjectStore = defineStore('project', () => {
 
   async function deleteProject(projectId: string) {
     try {
-      await window.ipcRenderer.invoke('db-delete-project', projectId)
+      await window.ipc.invoke('db-delete-project', projectId)
       projectList.value = projectList.value.filter(p => p.id !== projectId)
       // If we deleted the current project, clear state
       if (currentProjectId.value === projectId) {
@@ -174,6 +436,99 @@ export const useProjectStore = defineStore('project', () => {
     }
   }
 
+  /**
+   * Exports a project to a .muse file. Saves first when exporting the open project.
+   * Returns the written path, or null if the user cancelled the dialog.
+   */
+  async function exportProject(projectId: string): Promise<string | null> {
+    if (projectId === currentProjectId.value) {
+      await saveProject()
+    }
+    const result = await window.ipc.invoke('project-export', projectId)
+    return result?.filePath ?? null
+  }
+
+  /**
+   * Imports a .muse file as a new project and refreshes the project list.
+   * Returns the new project's ID, or null if the user cancelled the dialog.
+   */
+  async function importProject(): Promise<string | null> {
+    const result = await window.ipc.invoke('project-import')
+    if (!result) return null
+    await listProjects()
+    return result.projectId
+  }
+
+  /**
+   * Full-text search over the open project. Flushes pending edits first so the
+   * index matches what's on screen.
+   */
+  async function searchProject(query: string): Promise<SearchResult[]> {
+    const projectId = currentProjectId.value
+    if (!projectId || !query.trim()) return []
+    if (hasPendingChanges(pending)) await saveProject()
+    return await window.ipc.invoke('db-search', { projectId, query })
+  }
+
+  async function listTrash(): Promise<TrashItem[]> {
+    // Deletes only reach the database on save
+    if (hasPendingChanges(pending)) await saveProject()
+    return await window.ipc.invoke('db-list-trash')
+  }
+
+  /**
+   * Restores a trashed item. If it belongs to the open project, the project is
+   * reloaded so the item reappears in the outline.
+   */
+  async function restoreTrashItem(item: TrashItem) {
+    const { projectId } = await window.ipc.invoke('db-restore-trash-item', { kind: item.kind, id: item.id })
+    if (item.kind === 'project') {
+      await listProjects()
+    } else if (projectId === currentProjectId.value) {
+      await saveProject()
+      await loadProject(projectId)
+    }
+  }
+
+  async function purgeTrashItem(item: TrashItem) {
+    await window.ipc.invoke('db-purge-trash-item', { kind: item.kind, id: item.id })
+  }
+
+  /**
+   * Permanently removes trash older than the retention window. Never throws:
+   * a failed purge just leaves the items for next time.
+   */
+  async function purgeExpiredTrash(days: number) {
+    try {
+      await window.ipc.invoke('db-purge-expired-trash', days)
+    } catch (err) {
+      console.error('Failed to purge expired trash:', err)
+    }
+  }
+
+  /**
+   * Copies a project (chapters, characters, terms) under new IDs as an alternate draft.
+   * Returns the fork's project ID.
+   */
+  async function forkProject(projectId: string, title: string, forkChapterId?: string | null): Promise<string> {
+    if (projectId === currentProjectId.value) {
+      await saveProject()
+    }
+    const result = await window.ipc.invoke('db-fork-project', { projectId, title, forkChapterId: forkChapterId || null })
+    await listProjects()
+    return result.projectId
+  }
+
+  /**
+   * Reads a saved project without making it the open one, e.g. to compare a fork with its parent
+   */
+  async function loadProjectSnapshot(projectId: string): Promise<ProjectSnapshot | null> {
+    if (projectId === currentProjectId.value && hasPendingChanges(pending)) {
+      await saveProject()
+    }
+    return await window.ipc.invoke('db-load-project', projectId)
+  }
+
   async function switchProject(projectId: string) {
     await loadProject(projectId)
   }
@@ -181,22 +536,131 @@ export const useProjectStore = defineStore('project', () => {
   async function saveProject() {
     isSaving.value = true
     loadError.value = null
-    console.log('Saving project...')
+    // Take ownership of the pending set; edits made while this save runs land in a fresh one
+    const changes = pending
+    pending = createPendingChanges()
+    const projectId = bookMetadata.value.id || currentProjectId.value || 'default-project'
     try {
       // Use structuredClone with toRaw to preserve types and avoid Vue reactivity issues
-      const projectData = safeClone(toRaw({ ...bookMetadata.value, storyBible: storyBible.value }))
-      const chaptersData = safeClone(toRaw(storyOutline.value))
-      const charactersData = safeClone(toRaw(characterOutline.value))
-      const termsData = safeClone(toRaw(terminology.value))
-      await window.ipcRenderer.invoke('db-save-project', {
-        project: projectData,
-        chapters: chaptersData,
-        characters: charactersData,
-        terms: termsData
-      })
+      if (changes.project) {
+        await window.ipc.invoke('db-upsert-project',
+          safeClone(toRaw({ ...bookMetadata.value, id: projectId, storyBible: storyBible.value })))
+        changes.project = false
+      }
+
+      for (const id of changes.parts) {
+        const order = storyParts.value.findIndex(p => p.id === id)
+        if (order !== -1) {
+          await window.ipc.invoke('db-upsert-part', { projectId, part: safeClone(toRaw(storyParts.value[order])), order })
+        }
+        changes.parts.delete(id)
+      }
+      for (const id of changes.deletedParts) {
+        await window.ipc.invoke('db-delete-part', id)
+        changes.deletedParts.delete(id)
+      }
+
+      for (const id of changes.chapters) {
+        const order = storyOutline.value.findIndex(c => c.id === id)
+        if (order !== -1) {
+          await window.ipc.invoke('db-upsert-chapter', {
+            projectId,
+            chapter: safeClone(toRaw(storyOutline.value[order])),
+            order
+          })
+        }
+        changes.chapters.delete(id)
+      }
+      for (const id of changes.deletedChapters) {
+        await window.ipc.invoke('db-delete-chapter', id)
+        changes.deletedChapters.delete(id)
+      }
+      if (changes.chapterOrder) {
+        await window.ipc.invoke('db-reorder-chapters', {
+          projectId,
+          chapterIds: storyOutline.value.map(c => c.id)
+        })
+        changes.chapterOrder = false
+      }
+
+      for (const id of changes.characters) {
+        const character = characterOutline.value.find(c => c.id === id)
+        if (character) {
+          await window.ipc.invoke('db-upsert-character', { projectId, character: safeClone(toRaw(character)) })
+        }
+        changes.characters.delete(id)
+      }
+      for (const id of changes.deletedCharacters) {
+        await window.ipc.invoke('db-delete-character', id)
+        changes.deletedCharacters.delete(id)
+      }
+
+      for (const id of changes.relationships) {
+        const relationship = relationships.value.find(r => r.id === id)
+        if (relationship) {
+          await window.ipc.invoke('db-upsert-relationship', { projectId, relationship: safeClone(toRaw(relationship)) })
+        }
+        changes.relationships.delete(id)
+      }
+      for (const id of changes.deletedRelationships) {
+        await window.ipc.invoke('db-delete-relationship', id)
+        changes.deletedRelationships.delete(id)
+      }
+
+      for (const id of changes.terms) {
+        const term = terminology.value.find(t => t.id === id)
+        if (term) {
+          await window.ipc.invoke('db-upsert-term', { projectId, term: safeClone(toRaw(term)) })
+        }
+        changes.terms.delete(id)
+      }
+      for (const id of changes.deletedTerms) {
+        await window.ipc.invoke('db-delete-term', id)
+        changes.deletedTerms.delete(id)
+      }
+
+      for (const id of changes.timeline) {
+        const event = timeline.value.find(e => e.id === id)
+        if (event) {
+          await window.ipc.invoke('db-upsert-timeline-event', { projectId, event: safeClone(toRaw(event)) })
+        }
+        changes.timeline.delete(id)
+      }
+      for (const id of changes.deletedTimeline) {
+        await window.ipc.invoke('db-delete-timeline-event', id)
+        changes.deletedTimeline.delete(id)
+      }
+
+      for (const id of changes.notes) {
+        const note = notes.value.find(n => n.id === id)
+        if (note) {
+          const { attachments: _attachments, ...fields } = toRaw(note)
+          await window.ipc.invoke('db-upsert-note', { projectId, note: safeClone(fields) })
+        }
+        changes.notes.delete(id)
+      }
+      for (const id of changes.deletedNotes) {
+        await window.ipc.invoke('db-delete-note', id)
+        changes.deletedNotes.delete(id)
+      }
+
+      for (const id of changes.comments) {
+        const comment = comments.value.find(c => c.id === id)
+        if (comment) {
+          await window.ipc.invoke('db-upsert-comment', { projectId, comment: safeClone(toRaw(comment)) })
+        }
+        changes.comments.delete(id)
+      }
+      for (const id of changes.deletedComments) {
+        await window.ipc.invoke('db-delete-comment', id)
+        changes.deletedComments.delete(id)
+      }
+
       console.log('Project saved!')
       lastSavedAt.value = new Date().toISOString()
     } catch (err: unknown) {
+      // Whatever wasn't written yet goes back into the queue for the next save
+      mergePendingChanges(pending, changes)
       console.error('Failed to save project:', err)
       const message = err instanceof Error ? err.message : 'Save failed'
       alert(`Failed to save project: ${message}`)
@@ -211,8 +675,9 @@ export const useProjectStore = defineStore('project', () => {
     console.log('Loading project:', idToLoad)
     loadError.value = null
     try {
-      const data = await window.ipcRenderer.invoke('db-load-project', idToLoad)
+      const data = await window.ipc.invoke('db-load-project', idToLoad)
       if (data) {
+        isHydrating = true
         // Extract storyBible from project data and set separately (single source of truth)
         const { storyBible: loadedBible, ...metadataWithoutBible } = data.project || {}
         bookMetadata.value = {
@@ -223,7 +688,11 @@ export const useProjectStore = defineStore('project', () => {
           ageGroup: metadataWithoutBible.ageGroup || '',
           logline: metadataWithoutBible.logline || '',
           synopsis: metadataWithoutBible.synopsis || '',
-          originalPremise: metadataWithoutBible.originalPremise || ''
+          originalPremise: metadataWithoutBible.originalPremise || '',
+          wordGoal: metadataWithoutBible.wordGoal || 0,
+          goalDeadline: metadataWithoutBible.goalDeadline,
+          monthlyBudget: metadataWithoutBible.monthlyBudget || 0,
+          operationBudget: metadataWithoutBible.operationBudget || 0
         }
         storyBible.value = loadedBible || {
           coreThemes: '',
@@ -233,6 +702,7 @@ export const useProjectStore = defineStore('project', () => {
           motifs: '',
           worldRules: ''
         }
+        storyParts.value = data.parts || []
         storyOutline.value = (data.chapters || []).map((c: StoryChapter) => ({
           placeholder: '',
           validatorNotes: '',
@@ -244,18 +714,55 @@ export const useProjectStore = defineStore('project', () => {
           ...c
         }))
         characterOutline.value = data.characters || []
+        relationships.value = data.relationships || []
         terminology.value = data.terms || []
+        timeline.value = data.timeline || []
+        notes.value = data.notes || []
+        comments.value = data.comments || []
         currentProjectId.value = data.project?.id || idToLoad
         lastSavedAt.value = new Date().toISOString()
+        pending = createPendingChanges()
+        // A chapter restored from the trash comes back at the end of the book, outside its part's group
+        groupChaptersByPart()
       } else {
         newProject('Untitled Project')
       }
     } catch (err) {
       console.error('Failed to load project:', err)
       loadError.value = err instanceof Error ? err.message : 'Load failed'
+    } finally {
+      isHydrating = false
+    }
+  }
+
+  async function listChapterRevisions(chapterId: string): Promise<ChapterRevision[]> {
+    try {
+      return await window.ipc.invoke('db-list-chapter-revisions', chapterId)
+    } catch (err) {
+      console.error('Failed to list chapter revisions:', err)
+      return []
     }
   }
 
+  async function loadChapterRevision(revisionId: string): Promise<ChapterRevision | null> {
+    return window.ipc.invoke('db-load-chapter-revision', revisionId)
+  }
+
+  /**
+   * Restores a revision onto its chapter. Pending edits are saved first so the
+   * state being replaced is itself captured as a revision.
+   */
+  async function restoreChapterRevision(revisionId: string) {
+    await saveProject()
+    const restored = await window.ipc.invoke('db-restore-chapter-revision', revisionId)
+    updateChapter(restored.chapterId, {
+      content: restored.content,
+      summary: restored.summary,
+      beats: restored.beats,
+      ...(restored.scenes.length ? { scenes: restored.scenes } : {})
+    })
+  }
+
   function addChapter(chapter: Omit<StoryChapter, 'id'>, atIndex?: number) {
     const newChapter: StoryChapter = { 
       ...chapter, 
@@ -270,23 +777,116 @@ export const useProjectStore = defineStore('project', () => {
       lastPromptHash: chapter.lastPromptHash || ''
     }
     if (typeof atIndex === 'number' && atIndex >= 0 && atIndex <= storyOutline.value.length) {
+      // An inserted chapter joins the part it lands in unless the caller picked one
+      if (!('partId' in chapter)) {
+        newChapter.partId = (storyOutline.value[atIndex - 1] || storyOutline.value[atIndex])?.partId
+      }
       storyOutline.value.splice(atIndex, 0, newChapter)
     } else {
       storyOutline.value.push(newChapter)
     }
+    pending.chapters.add(newChapter.id)
+    pending.chapterOrder = true
+    groupChaptersByPart()
   }
 
+  /**
+   * Merges fields into a chapter. On a chapter with scenes, `content` is treated as a
+   * chapter-level rewrite and split back onto the scenes; `scenes` always wins.
+   */
   function updateChapter(id: string, data: Partial<StoryChapter>) {
     const index = storyOutline.value.findIndex(c => c.id === id)
     if (index !== -1) {
-      storyOutline.value[index] = { ...storyOutline.value[index], ...data }
+      const chapter = { ...storyOutline.value[index], ...data }
+      if (data.scenes) {
+        chapter.content = joinSceneContent(data.scenes)
+      } else if (data.content !== undefined && chapter.scenes?.length) {
+        chapter.scenes = splitSceneContent(data.content, chapter.scenes)
+        chapter.content = joinSceneContent(chapter.scenes)
+      }
+      storyOutline.value[index] = chapter
+      pending.chapters.add(id)
+    }
+  }
+
+  /**
+   * Gives a chapter its first scene, holding the prose and beats written so far.
+   * Returns the chapter's scenes.
+   */
+  function ensureScenes(chapterId: string): StoryScene[] {
+    const chapter = storyOutline.value.find(c => c.id === chapterId)
+    if (!chapter) return []
+    if (chapter.scenes?.length) return chapter.scenes
+    const scenes: StoryScene[] = [{
+      id: crypto.randomUUID(),
+      title: 'Scene 1',
+      content: chapter.content || '',
+      beats: chapter.beats || []
+    }]
+    updateChapter(chapterId, { scenes })
+    return scenes
+  }
+
+  function addScene(chapterId: string, scene: Partial<Omit<StoryScene, 'id'>> = {}, atIndex?: number): string | null {
+    const chapter = storyOutline.value.find(c => c.id === chapterId)
+    if (!chapter) return null
+    const scenes = [...ensureScenes(chapterId)]
+    const newScene: StoryScene = {
+      title: `Scene ${scenes.length + 1}`,
+      content: '',
+      beats: [],
+      ...scene,
+      id: crypto.randomUUID()
+    }
+    if (typeof atIndex === 'number' && atIndex >= 0 && atIndex <= scenes.length) {
+      scenes.splice(atIndex, 0, newScene)
+    } else {
+      scenes.push(newScene)
     }
+    updateChapter(chapterId, { scenes })
+    return newScene.id
+  }
+
+  function updateScene(chapterId: string, sceneId: string, data: Partial<StoryScene>) {
+    const chapter = storyOutline.value.find(c => c.id === chapterId)
+    if (!chapter?.scenes?.some(s => s.id === sceneId)) return
+    updateChapter(chapterId, {
+      scenes: chapter.scenes.map(s => s.id === sceneId ? { ...s, ...data, id: sceneId } : s)
+    })
+  }
+
+  function moveScene(chapterId: string, sceneId: string, direction: 'up' | 'down') {
+    const scenes = [...(storyOutline.value.find(c => c.id === chapterId)?.scenes || [])]
+    const index = scenes.findIndex(s => s.id === sceneId)
+    const target = direction === 'up' ? index - 1 : index + 1
+    if (index === -1 || target < 0 || target >= scenes.length) return
+    const temp = scenes[index]
+    scenes[index] = scenes[target]
+    scenes[target] = temp
+    updateChapter(chapterId, { scenes })
+  }
+
+  // Scenes have no trash of their own: their prose stays recoverable through chapter revisions
+  function deleteScene(chapterId: string, sceneId: string) {
+    const scenes = storyOutline.value.find(c => c.id === chapterId)?.scenes || []
+    if (!scenes.some(s => s.id === sceneId)) return
+    updateChapter(chapterId, { scenes: scenes.filter(s => s.id !== sceneId) })
   }
 
+  /**
+   * Moves a chapter one slot. At the edge of its part the chapter crosses into the
+   * neighbouring part instead of swapping places with that part's chapter.
+   */
   function moveChapter(id: string, direction: 'up' | 'down') {
     const index = storyOutline.value.findIndex(c => c.id === id)
     if (index === -1) return
 
+    const neighbour = storyOutline.value[direction === 'up' ? index - 1 : index + 1]
+    if (neighbour && (neighbour.partId || '') !== (storyOutline.value[index].partId || '')) {
+      updateChapter(id, { partId: neighbour.partId })
+      return
+    }
+
     if (direction === 'up' && index > 0) {
       const temp = storyOutline.value[index]
       storyOutline.value[index] = storyOutline.value[index - 1]
@@ -296,23 +896,124 @@ export const useProjectStore = defineStore('project', () => {
       storyOutline.value[index] = storyOutline.value[index + 1]
       storyOutline.value[index + 1] = temp
     }
+    pending.chapterOrder = true
+  }
+
+  /**
+   * Replaces the chapter order wholesale, e.g. after sorting by chapter number
+   */
+  function reorderChapters(orderedIds: string[]) {
+    const byId = new Map(storyOutline.value.map(c => [c.id, c]))
+    const reordered = orderedIds.map(id => byId.get(id)).filter(Boolean) as StoryChapter[]
+    // Keep any chapters the caller didn't mention at the end rather than dropping them
+    const remaining = storyOutline.value.filter(c => !orderedIds.includes(c.id))
+    storyOutline.value = [...reordered, ...remaining]
+    pending.chapterOrder = true
+    groupChaptersByPart()
+  }
+
+  /**
+   * Restores the grouping invariant: chapters in part order, chapters outside any
+   * part last. The sort is stable, so the order within each part is kept.
+   */
+  function groupChaptersByPart() {
+    const rank = new Map(storyParts.value.map((part, index) => [part.id, index]))
+    const rankOf = (chapter: StoryChapter) => rank.get(chapter.partId || '') ?? storyParts.value.length
+    const grouped = storyOutline.value
+      .map((chapter, index) => ({ chapter, index }))
+      .sort((a, b) => rankOf(a.chapter) - rankOf(b.chapter) || a.index - b.index)
+      .map(entry => entry.chapter)
+    if (grouped.some((chapter, index) => chapter !== storyOutline.value[index])) {
+      storyOutline.value = grouped
+      pending.chapterOrder = true
+    }
+  }
+
+  function addPart(part: Partial<Omit<StoryPart, 'id'>> = {}): string {
+    const newPart: StoryPart = {
+      title: `Part ${storyParts.value.length + 1}`,
+      summary: '',
+      actRole: '',
+      ...part,
+      id: crypto.randomUUID()
+    }
+    storyParts.value.push(newPart)
+    pending.parts.add(newPart.id)
+    return newPart.id
+  }
+
+  function updatePart(id: string, data: Partial<StoryPart>) {
+    const index = storyParts.value.findIndex(p => p.id === id)
+    if (index !== -1) {
+      storyParts.value[index] = { ...storyParts.value[index], ...data, id }
+      pending.parts.add(id)
+    }
+  }
+
+  // Moves a part with all of its chapters
+  function movePart(id: string, direction: 'up' | 'down') {
+    const index = storyParts.value.findIndex(p => p.id === id)
+    const target = direction === 'up' ? index - 1 : index + 1
+    if (index === -1 || target < 0 || target >= storyParts.value.length) return
+    const temp = storyParts.value[index]
+    storyParts.value[index] = storyParts.value[target]
+    storyParts.value[target] = temp
+    pending.parts.add(id)
+    pending.parts.add(storyParts.value[index].id)
+    groupChaptersByPart()
+  }
+
+  /**
+   * Assigns a chapter to a part (or to none), moving it into that part's group
+   */
+  function assignChapterToPart(chapterId: string, partId: string | undefined) {
+    updateChapter(chapterId, { partId })
+    groupChaptersByPart()
+  }
+
+  /**
+   * Deletes a part but not its chapters: they join the part before it (or the one
+   * after it, for the first part) so they stay where they are in the book.
+   * Parts hold no prose, so they skip the trash.
+   */
+  function deletePart(id: string) {
+    const index = storyParts.value.findIndex(p => p.id === id)
+    if (index === -1) return
+    const heir = storyParts.value[index - 1] || storyParts.value[index + 1]
+    storyOutline.value
+      .filter(c => c.partId === id)
+      .forEach(c => updateChapter(c.id, { partId: heir?.id }))
+    storyParts.value.splice(index, 1)
+    pending.parts.delete(id)
+    pending.deletedParts.add(id)
+    // Later parts shift down a slot
+    storyParts.value.slice(index).forEach(p => pending.parts.add(p.id))
+    groupChaptersByPart()
   }
 
   function deleteChapter(id: string) {
     const index = storyOutline.value.findIndex(c => c.id === id)
     if (index !== -1) {
       storyOutline.value.splice(index, 1)
+      pending.chapters.delete(id)
+      pending.deletedChapters.add(id)
+      pending.chapterOrder = true
+      // The chapter's comments stay in the database and come back with it from the trash
+      comments.value = comments.value.filter(c => c.chapterId !== id)
     }
   }
 
   function addCharacter(character: Omit<Character, 'id'>) {
-    characterOutline.value.push({ ...character, id: crypto.randomUUID() })
+    const id = crypto.randomUUID()
+    characterOutline.value.push({ ...character, id })
+    pending.characters.add(id)
   }
 
   function updateCharacter(id: string, data: Partial<Character>) {
     const index = characterOutline.value.findIndex(c => c.id === id)
     if (index !== -1) {
       characterOutline.value[index] = { ...characterOutline.value[index], ...data }
+      pending.characters.add(id)
     }
   }
 
@@ -320,17 +1021,48 @@ export const useProjectStore = defineStore('project', () => {
     const index = characterOutline.value.findIndex(c => c.id === id)
     if (index !== -1) {
       characterOutline.value.splice(index, 1)
+      pending.characters.delete(id)
+      pending.deletedCharacters.add(id)
+      // Kept in the database so they return if the character is restored from the trash
+      relationships.value = relationships.value.filter(r => r.fromId !== id && r.toId !== id)
+    }
+  }
+
+  function addRelationship(relationship: Omit<CharacterRelationship, 'id'>): string {
+    const id = crypto.randomUUID()
+    relationships.value.push({ ...relationship, id })
+    pending.relationships.add(id)
+    return id
+  }
+
+  function updateRelationship(id: string, data: Partial<CharacterRelationship>) {
+    const index = relationships.value.findIndex(r => r.id === id)
+    if (index !== -1) {
+      relationships.value[index] = { ...relationships.value[index], ...data, id }
+      pending.relationships.add(id)
+    }
+  }
+
+  function deleteRelationship(id: string) {
+    const index = relationships.value.findIndex(r => r.id === id)
+    if (index !== -1) {
+      relationships.value.splice(index, 1)
+      pending.relationships.delete(id)
+      pending.deletedRelationships.add(id)
     }
   }
 
   function addTerm(term: Omit<StoryTerm, 'id'>) {
-    terminology.value.push({ ...term, id: crypto.randomUUID(), chapters: term.chapters || [] })
+    const id = crypto.randomUUID()
+    terminology.value.push({ ...term, id, chapters: term.chapters || [] })
+    pending.terms.add(id)
   }
 
   function updateTerm(id: string, data: Partial<StoryTerm>) {
     const index = terminology.value.findIndex(t => t.id === id)
     if (index !== -1) {
       terminology.value[index] = { ...terminology.value[index], ...data }
+      pending.terms.add(id)
     }
   }
 
@@ -338,6 +1070,177 @@ export const useProjectStore = defineStore('project', () => {
     const index = terminology.value.findIndex(t => t.id === id)
     if (index !== -1) {
       terminology.value.splice(index, 1)
+      pending.terms.delete(id)
+      pending.deletedTerms.add(id)
+    }
+  }
+
+  function addTimelineEvent(event: Omit<TimelineEvent, 'id'>): string {
+    const id = crypto.randomUUID()
+    timeline.value.push({ ...event, id })
+    pending.timeline.add(id)
+    return id
+  }
+
+  function updateTimelineEvent(id: string, data: Partial<TimelineEvent>) {
+    const index = timeline.value.findIndex(e => e.id === id)
+    if (index !== -1) {
+      timeline.value[index] = { ...timeline.value[index], ...data, id }
+      pending.timeline.add(id)
+    }
+  }
+
+  /**
+   * Deletes an event. Events anchored to it move onto its own anchor with the
+   * offsets added up, so they keep their place on the timeline.
+   */
+  function deleteTimelineEvent(id: string) {
+    const index = timeline.value.findIndex(e => e.id === id)
+    if (index === -1) return
+    const removed = timeline.value[index]
+    timeline.value.splice(index, 1)
+    for (const event of timeline.value) {
+      if (event.anchorEventId !== id) continue
+      event.anchorEventId = removed.anchorEventId
+      event.offsetDays += removed.offsetDays
+      pending.timeline.add(event.id)
+    }
+    pending.timeline.delete(id)
+    pending.deletedTimeline.add(id)
+  }
+
+  function addNote(note?: Partial<Omit<StoryNote, 'id'>>): string {
+    const id = crypto.randomUUID()
+    notes.value.unshift({
+      title: 'Untitled Note',
+      content: '',
+      tags: [],
+      chapters: [],
+      characters: [],
+      terms: [],
+      includeInContext: false,
+      ...note,
+      id,
+      attachments: [],
+      updatedAt: new Date().toISOString()
+    })
+    pending.notes.add(id)
+    return id
+  }
+
+  function updateNote(id: string, data: Partial<Omit<StoryNote, 'attachments'>>) {
+    const index = notes.value.findIndex(n => n.id === id)
+    if (index !== -1) {
+      notes.value[index] = { ...notes.value[index], ...data, id, updatedAt: new Date().toISOString() }
+      pending.notes.add(id)
+    }
+  }
+
+  function deleteNote(id: string) {
+    const index = notes.value.findIndex(n => n.id === id)
+    if (index !== -1) {
+      notes.value.splice(index, 1)
+      pending.notes.delete(id)
+      pending.deletedNotes.add(id)
+    }
+  }
+
+  /**
+   * Asks for files to attach to a note. The note is saved first so the
+   * attachment rows always have a note to belong to.
+   */
+  async function addNoteAttachments(noteId: string) {
+    const projectId = currentProjectId.value
+    if (!projectId) return
+    if (hasPendingChanges(pending)) await saveProject()
+    const added = await window.ipc.invoke('note-add-attachments', { projectId, noteId })
+    const note = notes.value.find(n => n.id === noteId)
+    if (note && added.length) {
+      note.attachments = [...(note.attachments || []), ...added]
+    }
+  }
+
+  async function openNoteAttachment(attachmentId: string) {
+    await window.ipc.invoke('note-open-attachment', attachmentId)
+  }
+
+  async function deleteNoteAttachment(noteId: string, attachmentId: string) {
+    await window.ipc.invoke('note-delete-attachment', attachmentId)
+    const note = notes.value.find(n => n.id === noteId)
+    if (note) {
+      note.attachments = (note.attachments || []).filter(a => a.id !== attachmentId)
+    }
+  }
+
+  /**
+   * Opens a thread on a passage. `anchorId` is the ID the passage's comment mark carries;
+   * returns the new thread's first comment.
+   */
+  function addCommentThread(thread: { chapterId: string; anchorId: string; quote: string; body: string; source?: StoryComment['source'] }): StoryComment {
+    const comment: StoryComment = {
+      id: crypto.randomUUID(),
+      chapterId: thread.chapterId,
+      anchorId: thread.anchorId,
+      body: thread.body,
+      quote: thread.quote,
+      status: 'open',
+      source: thread.source || 'user',
+      createdAt: new Date().toISOString()
+    }
+    comments.value.push(comment)
+    pending.comments.add(comment.id)
+    return comment
+  }
+
+  function replyToComment(rootId: string, body: string) {
+    const root = comments.value.find(c => c.id === rootId)
+    if (!root) return
+    const id = crypto.randomUUID()
+    comments.value.push({
+      id,
+      chapterId: root.chapterId,
+      anchorId: root.anchorId,
+      parentId: root.id,
+      body,
+      quote: '',
+      status: 'open',
+      source: 'user',
+      createdAt: new Date().toISOString()
+    })
+    pending.comments.add(id)
+  }
+
+  function updateComment(id: string, data: Partial<Pick<StoryComment, 'body'>>) {
+    const index = comments.value.findIndex(c => c.id === id)
+    if (index !== -1) {
+      comments.value[index] = { ...comments.value[index], ...data }
+      pending.comments.add(id)
+    }
+  }
+
+  function setCommentThreadStatus(rootId: string, status: CommentStatus) {
+    const index = comments.value.findIndex(c => c.id === rootId)
+    if (index !== -1) {
+      comments.value[index] = {
+        ...comments.value[index],
+        status,
+        resolvedAt: status === 'resolved' ? new Date().toISOString() : undefined
+      }
+      pending.comments.add(rootId)
+    }
+  }
+
+  /**
+   * Deletes a single reply, or a whole thread when given its first comment.
+   * Removing the passage's mark from the chapter text is up to the editor.
+   */
+  function deleteComment(id: string) {
+    const removed = comments.value.filter(c => c.id === id || c.parentId === id)
+    if (removed.length === 0) return
+    comments.value = comments.value.filter(c => !removed.includes(c))
+    for (const comment of removed) {
+      pending.comments.delete(comment.id)
+      pending.deletedComments.add(comment.id)
     }
   }
 
@@ -360,9 +1263,14 @@ export const useProjectStore = defineStore('project', () => {
       logline: '',
       synopsis: ''
     }
+    storyParts.value = []
     storyOutline.value = []
     characterOutline.value = []
+    relationships.value = []
     terminology.value = []
+    timeline.value = []
+    notes.value = []
+    comments.value = []
     storyBible.value = {
       coreThemes: '',
       characterTerminologies: '',
@@ -373,6 +1281,8 @@ export const useProjectStore = defineStore('project', () => {
     }
     currentProjectId.value = newId
     lastSavedAt.value = null
+    pending = createPendingChanges()
+    pending.project = true
   }
 
   return {
@@ -382,27 +1292,72 @@ export const useProjectStore = defineStore('project', () => {
     projectList,
     currentProjectId,
     bookMetadata,
+    storyParts,
     storyOutline,
     characterOutline,
+    relationships,
     terminology,
+    timeline,
+    notes,
+    comments,
     storyBible,
     updateMetadata,
     updateStoryBible,
     addChapter,
     updateChapter,
+    ensureScenes,
+    addScene,
+    updateScene,
+    moveScene,
+    deleteScene,
     moveChapter,
+    reorderChapters,
     deleteChapter,
+    addPart,
+    updatePart,
+    movePart,
+    assignChapterToPart,
+    deletePart,
     addCharacter,
     updateCharacter,
     deleteCharacter,
+    addRelationship,
+    updateRelationship,
+    deleteRelationship,
     addTerm,
     updateTerm,
     deleteTerm,
+    addTimelineEvent,
+    updateTimelineEvent,
+    deleteTimelineEvent,
+    addNote,
+    updateNote,
+    deleteNote,
+    addNoteAttachments,
+    openNoteAttachment,
+    deleteNoteAttachment,
+    addCommentThread,
+    replyToComment,
+    updateComment,
+    setCommentThreadStatus,
+    deleteComment,
     newProject,
     saveProject,
     loadProject,
     listProjects,
     deleteProject,
-    switchProject
+    switchProject,
+    exportProject,
+    importProject,
+    searchProject,
+    forkProject,
+    loadProjectSnapshot,
+    listTrash,
+    restoreTrashItem,
+    purgeTrashItem,
+    purgeExpiredTrash,
+    listChapterRevisions,
+    loadChapterRevision,
+    restoreChapterRevision
   }
 })
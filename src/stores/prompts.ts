@@ -1,6 +1,15 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { ref, computed, watch } from 'vue'
 import { AI_PROMPTS } from '../constants/prompts'
+import { useProjectStore } from './project'
+import { useSettingsStore } from './settings'
+
+type PromptKey = keyof typeof AI_PROMPTS
+
+/**
+ * Where an override applies. The most specific match wins: project, then genre, then global.
+ */
+type PromptScope = 'global' | 'genre' | 'project'
 
 /**
  * Stored prompt with metadata
@@ -8,62 +17,131 @@ import { AI_PROMPTS } from '../constants/prompts'
 interface StoredPrompt {
   id: string
   name: string
-  basePromptKey: keyof typeof AI_PROMPTS
+  basePromptKey: PromptKey
+  scope: PromptScope
+  scopeValue: string // Project id, lower-cased genre name, or '' for global
   originalPrompt: string
   improvedPrompt: string
   score: number
   mutations: string[]
+  activeVersionId: string | null
   createdAt: string
   updatedAt: string
 }
 
+/**
+ * One optimization result for an override. Every run adds a version; none are overwritten.
+ */
+interface PromptVersion {
+  id: string
+  promptId: string
+  version: number
+  improvedPrompt: string
+  score: number
+  mutations: string[]
+  sampleOutput: string
+  model: string
+  createdAt: string
+}
+
+const SCOPE_ORDER: PromptScope[] = ['project', 'genre', 'global']
+
+function normalizeGenre(genre: string | undefined | null): string {
+  return (genre || '').trim().toLowerCase()
+}
+
 /**
  * Store for managing improved prompts via GEPA optimization
  * Persists to SQLite database via Electron IPC
  */
 export const usePromptStore = defineStore('prompts', () => {
+  const projectStore = useProjectStore()
+  const settingsStore = useSettingsStore()
   const improvedPrompts = ref<StoredPrompt[]>([])
   const isLoaded = ref(false)
   const isLoading = ref(false)
 
   /**
-   * Get the effective prompt for a given key
-   * Returns improved version if available, otherwise original
+   * The scope value an override needs to apply to the open project
    */
-  function getPrompt(key: keyof typeof AI_PROMPTS): string {
-    const improved = improvedPrompts.value.find(p => p.basePromptKey === key)
-    if (improved) {
-      return improved.improvedPrompt
+  function currentScopeValue(scope: PromptScope): string {
+    if (scope === 'project') return projectStore.currentProjectId || ''
+    if (scope === 'genre') return normalizeGenre(projectStore.bookMetadata.genre)
+    return ''
+  }
+
+  /**
+   * The override for one scope that applies to the open project, if any
+   */
+  function findOverride(key: PromptKey, scope: PromptScope): StoredPrompt | undefined {
+    const value = currentScopeValue(scope)
+    if (scope !== 'global' && !value) return undefined
+    return improvedPrompts.value.find(p => p.basePromptKey === key && p.scope === scope && p.scopeValue === value)
+  }
+
+  /**
+   * The most specific override that applies to the open project, if any
+   */
+  function resolveOverride(key: PromptKey): StoredPrompt | undefined {
+    for (const scope of SCOPE_ORDER) {
+      const override = findOverride(key, scope)
+      if (override) return override
     }
-    return AI_PROMPTS[key]
+    return undefined
   }
 
   /**
-   * Check if a prompt has been improved
+   * Get the effective prompt for a given key
+   * Returns the most specific improved version if available, otherwise original
    */
-  function hasImprovedPrompt(key: keyof typeof AI_PROMPTS): boolean {
-    return improvedPrompts.value.some(p => p.basePromptKey === key)
+  function getPrompt(key: PromptKey): string {
+    return resolveOverride(key)?.improvedPrompt ?? AI_PROMPTS[key]
   }
 
   /**
-   * Get metadata for an improved prompt
+   * Which scope supplies the prompt for the open project ('default' = built-in prompt)
    */
-  function getPromptMetadata(key: keyof typeof AI_PROMPTS): StoredPrompt | undefined {
-    return improvedPrompts.value.find(p => p.basePromptKey === key)
+  function getActiveScope(key: PromptKey): PromptScope | 'default' {
+    return resolveOverride(key)?.scope ?? 'default'
   }
 
   /**
-   * Save an improved prompt to database
+   * Check if a prompt has been improved for the open project
+   */
+  function hasImprovedPrompt(key: PromptKey): boolean {
+    return !!resolveOverride(key)
+  }
+
+  /**
+   * Get metadata for the improved prompt in effect (or for one scope)
+   */
+  function getPromptMetadata(key: PromptKey, scope?: PromptScope): StoredPrompt | undefined {
+    return scope ? findOverride(key, scope) : resolveOverride(key)
+  }
+
+  /**
+   * Save an improved prompt to database as a new version and make it active. Defaults to
+   * the open project's scope so an optimization run for one book does not change prompts
+   * for every other book.
    */
   async function saveImprovedPrompt(data: {
     name: string
-    basePromptKey: keyof typeof AI_PROMPTS
+    basePromptKey: PromptKey
     originalPrompt: string
     improvedPrompt: string
     score: number
     mutations: string[]
-  }): Promise<void> {
-    const existing = improvedPrompts.value.findIndex(p => p.basePromptKey === data.basePromptKey)
+    sampleOutput?: string
+    model?: string
+  }, scope: PromptScope = 'project'): Promise<void> {
+    const scopeValue = currentScopeValue(scope)
+    if (scope !== 'global' && !scopeValue) {
+      throw new Error(scope === 'project' ? 'Open a project to save a project prompt' : 'Set a genre to save a genre prompt')
+    }
+
+    const existing = improvedPrompts.value.findIndex(p =>
+      p.basePromptKey === data.basePromptKey && p.scope === scope && p.scopeValue === scopeValue
+    )
     const now = new Date().toISOString()
     const id = existing >= 0 ? improvedPrompts.value[existing].id : crypto.randomUUID()
 
@@ -71,10 +149,13 @@ export const usePromptStore = defineStore('prompts', () => {
       id,
       name: data.name,
       basePromptKey: data.basePromptKey,
+      scope,
+      scopeValue,
       originalPrompt: data.originalPrompt,
       improvedPrompt: data.improvedPrompt,
       score: data.score,
       mutations: data.mutations,
+      activeVersionId: existing >= 0 ? improvedPrompts.value[existing].activeVersionId : null,
       createdAt: existing >= 0 ? improvedPrompts.value[existing].createdAt : now,
       updatedAt: now
     }
@@ -88,31 +169,63 @@ export const usePromptStore = defineStore('prompts', () => {
 
     // Persist to database
     try {
-      await window.ipcRenderer.invoke('db-save-improved-prompt', {
+      const saved: StoredPrompt | null = await window.ipc.invoke('db-save-improved-prompt', {
         id: promptData.id,
         name: promptData.name,
         basePromptKey: promptData.basePromptKey,
+        scope: promptData.scope,
+        scopeValue: promptData.scopeValue,
         originalPrompt: promptData.originalPrompt,
         improvedPrompt: promptData.improvedPrompt,
         score: promptData.score,
-        mutations: promptData.mutations
+        mutations: promptData.mutations,
+        sampleOutput: data.sampleOutput || '',
+        model: data.model || settingsStore.selectedModel
       })
+      if (saved) replaceLocal(saved)
     } catch (e) {
       console.error('Failed to save improved prompt to database:', e)
     }
   }
 
+  function replaceLocal(prompt: StoredPrompt) {
+    const index = improvedPrompts.value.findIndex(p => p.id === prompt.id)
+    if (index >= 0) {
+      improvedPrompts.value[index] = prompt
+    } else {
+      improvedPrompts.value.push(prompt)
+    }
+  }
+
+  /**
+   * Every saved version of an override, oldest first
+   */
+  async function listVersions(promptId: string): Promise<PromptVersion[]> {
+    return await window.ipc.invoke('db-list-prompt-versions', promptId)
+  }
+
   /**
-   * Reset a prompt to its original version
+   * Make a version the active prompt for its override (rollback or roll forward)
    */
-  async function resetPrompt(key: keyof typeof AI_PROMPTS): Promise<void> {
-    const index = improvedPrompts.value.findIndex(p => p.basePromptKey === key)
+  async function pinVersion(versionId: string): Promise<void> {
+    const updated: StoredPrompt = await window.ipc.invoke('db-pin-prompt-version', versionId)
+    replaceLocal(updated)
+  }
+
+  /**
+   * Remove one scope's override and its version history; the next most specific one (or the original) takes over
+   */
+  async function resetPrompt(key: PromptKey, scope: PromptScope = 'project'): Promise<void> {
+    const scopeValue = currentScopeValue(scope)
+    const index = improvedPrompts.value.findIndex(p =>
+      p.basePromptKey === key && p.scope === scope && p.scopeValue === scopeValue
+    )
     if (index >= 0) {
       improvedPrompts.value.splice(index, 1)
-      
+
       // Remove from database
       try {
-        await window.ipcRenderer.invoke('db-delete-improved-prompt', key)
+        await window.ipc.invoke('db-delete-improved-prompt', { basePromptKey: key, scope, scopeValue })
       } catch (e) {
         console.error('Failed to delete improved prompt from database:', e)
       }
@@ -120,14 +233,14 @@ export const usePromptStore = defineStore('prompts', () => {
   }
 
   /**
-   * Load prompts from database
+   * Load prompts from database. `force` reloads even if already loaded.
    */
-  async function loadPrompts(): Promise<void> {
-    if (isLoaded.value || isLoading.value) return
+  async function loadPrompts(force = false): Promise<void> {
+    if ((isLoaded.value && !force) || isLoading.value) return
     isLoading.value = true
     
     try {
-      const prompts = await window.ipcRenderer.invoke('db-load-improved-prompts')
+      const prompts = await window.ipc.invoke('db-load-improved-prompts')
       if (prompts && Array.isArray(prompts)) {
         improvedPrompts.value = prompts as StoredPrompt[]
       }
@@ -168,18 +281,24 @@ export const usePromptStore = defineStore('prompts', () => {
   // Auto-load on store creation
   loadPrompts()
 
+  // Imports and forks write project overrides in the main process; pick them up on switch
+  watch(() => projectStore.currentProjectId, () => loadPrompts(true))
+
   return {
     improvedPrompts,
     isLoaded,
     isLoading,
     getPrompt,
+    getActiveScope,
     hasImprovedPrompt,
     getPromptMetadata,
     saveImprovedPrompt,
     resetPrompt,
+    listVersions,
+    pinVersion,
     loadPrompts,
     optimizablePrompts
   }
 })
 
-export type { StoredPrompt }
+export type { StoredPrompt, PromptVersion, PromptScope, PromptKey }
@@ -0,0 +1,118 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { useProjectStore } from './project'
+
+export interface WritingSession {
+  id: string
+  chapterId: string
+  startedAt: string
+  endedAt: string // Time of the last recorded edit
+  humanWordsAdded: number
+  aiWordsAdded: number // Words that landed in the text from an accepted AI generation or edit
+  wordsRemoved: number
+}
+
+export type WordOrigin = 'human' | 'ai'
+
+// A pause longer than this closes the chapter's session; the next edit starts a new one
+export const SESSION_IDLE_MINUTES = 10
+
+function toWords(text: string): string[] {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Words added and removed between two versions of a text, compared as bags of words.
+ * Moving a passage counts as neither, and rewording one word counts as one of each.
+ */
+export function diffWords(before: string, after: string): { added: number; removed: number } {
+  const remaining = new Map<string, number>()
+  for (const word of toWords(before)) remaining.set(word, (remaining.get(word) || 0) + 1)
+  let added = 0
+  for (const word of toWords(after)) {
+    const count = remaining.get(word) || 0
+    if (count > 0) remaining.set(word, count - 1)
+    else added++
+  }
+  let removed = 0
+  remaining.forEach(count => { removed += count })
+  return { added, removed }
+}
+
+export const useSessionStore = defineStore('sessions', () => {
+  const projectStore = useProjectStore()
+
+  // History of the project last loaded with loadSessions(); new edits are appended as they happen
+  const sessions = ref<WritingSession[]>([])
+  const sessionsProjectId = ref<string | null>(null)
+  const isLoading = ref(false)
+
+  // The open session of each chapter, by chapter ID
+  const openSessions = new Map<string, WritingSession>()
+
+  async function loadSessions(projectId: string) {
+    isLoading.value = true
+    try {
+      sessions.value = await window.ipc.invoke('db-list-writing-sessions', projectId)
+      sessionsProjectId.value = projectId
+    } catch (err) {
+      console.error('Failed to load writing sessions:', err)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Credits the difference between two versions of a chapter's text (HTML or plain) to
+   * the writer or the AI, in the chapter's open session. Never throws: a failed write
+   * loses the stats, not the edit.
+   */
+  function recordWords(chapterId: string, before: string, after: string, origin: WordOrigin) {
+    const projectId = projectStore.currentProjectId
+    if (!projectId || before === after) return
+    const { added, removed } = diffWords(before, after)
+    if (added === 0 && removed === 0) return
+
+    const now = new Date()
+    let session = openSessions.get(chapterId)
+    if (!session || now.getTime() - new Date(session.endedAt).getTime() > SESSION_IDLE_MINUTES * 60_000) {
+      session = {
+        id: crypto.randomUUID(),
+        chapterId,
+        startedAt: now.toISOString(),
+        endedAt: now.toISOString(),
+        humanWordsAdded: 0,
+        aiWordsAdded: 0,
+        wordsRemoved: 0
+      }
+      openSessions.set(chapterId, session)
+    }
+    session.endedAt = now.toISOString()
+    if (origin === 'ai') session.aiWordsAdded += added
+    else session.humanWordsAdded += added
+    session.wordsRemoved += removed
+
+    const snapshot = { ...session }
+    if (sessionsProjectId.value === projectId) {
+      const index = sessions.value.findIndex(s => s.id === snapshot.id)
+      if (index === -1) sessions.value.push(snapshot)
+      else sessions.value[index] = snapshot
+    }
+    window.ipc.invoke('db-upsert-writing-session', { projectId, session: snapshot }).catch(err => {
+      console.error('Failed to save writing session:', err)
+    })
+  }
+
+  return {
+    sessions,
+    sessionsProjectId,
+    isLoading,
+    loadSessions,
+    recordWords
+  }
+})
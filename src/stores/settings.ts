@@ -1,14 +1,147 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { ref, computed } from 'vue'
+import { BUILT_IN_PROVIDERS, DEFAULT_PROVIDER_ID, providerNeedsKey, type AiProvider } from '../services/providers'
+import type { ModelPricing } from '../services/tokens'
+import type { AiGenerationParams } from '../services/ai'
+import type { PromptKey } from './prompts'
+
+// API keys live encrypted in the main process; the renderer only learns which providers have one
+export type SecretStatus = Record<string, boolean>
+
+/**
+ * Where calls for one prompt go, e.g. a cheap model for summaries. Unset fields use the
+ * selected provider and model, and the model's default sampling.
+ */
+export interface ModelRoute extends AiGenerationParams {
+  providerId?: string
+  model?: string
+}
+
+export interface ResolvedRoute {
+  providerId: string
+  model: string
+  params: AiGenerationParams
+}
+
+const FREE: ModelPricing = { prompt: 0, completion: 0 }
+
+const pricingKey = (providerId: string, model: string) => `${providerId}:${model}`
 
 export const useSettingsStore = defineStore('settings', () => {
-  const openRouterKey = ref(localStorage.getItem('openRouterKey') || '')
+  // Replaced by the main process's list once loaded
+  const providers = ref<AiProvider[]>(BUILT_IN_PROVIDERS.map(p => ({ ...p })))
+  const keyStatus = ref<SecretStatus>({})
+  const selectedProviderId = ref(localStorage.getItem('selectedProviderId') || DEFAULT_PROVIDER_ID)
   const selectedModel = ref(localStorage.getItem('selectedModel') || 'moonshotai/kimi-k2-thinking')
   const defaultPrompt = ref(localStorage.getItem('defaultPrompt') || 'Rewrite this paragraph to be more descriptive.')
+  const trashRetentionDays = ref(Number(localStorage.getItem('trashRetentionDays')) || 30)
+  const logFullPrompts = ref(localStorage.getItem('logFullPrompts') === 'true')
+  // Prices the providers publish, by provider then model; loaded on first use
+  const publishedPricing = ref<Record<string, Record<string, ModelPricing>>>({})
+  // Prices entered by hand, by "providerId:model", for models whose provider doesn't publish them
+  const customPricing = ref<Record<string, ModelPricing>>(JSON.parse(localStorage.getItem('customPricing') || '{}'))
+  // Routing table by prompt key; prompts without an entry use the selected model
+  const modelRoutes = ref<Partial<Record<PromptKey, ModelRoute>>>(JSON.parse(localStorage.getItem('modelRoutes') || '{}'))
+
+  const selectedProvider = computed(() => providers.value.find(p => p.id === selectedProviderId.value))
+
+  // Whether AI requests can go out: the provider exists and has a key if it needs one
+  const isProviderReady = computed(() => {
+    const provider = selectedProvider.value
+    return !!provider && (!providerNeedsKey(provider) || !!keyStatus.value[provider.id])
+  })
+
+  async function loadProviders() {
+    try {
+      const [list, status] = await Promise.all([
+        window.ipc.invoke('ai-list-providers'),
+        window.ipc.invoke('secret-status')
+      ])
+      providers.value = list
+      keyStatus.value = status
+    } catch (err) {
+      console.error('Failed to load AI providers:', err)
+    }
+  }
+
+  // An empty key removes the stored one
+  async function setApiKey(providerId: string, key: string) {
+    keyStatus.value = await window.ipc.invoke('secret-set', { providerId, value: key })
+  }
+
+  // Changing a provider's base URL clears its key in the main process, so the status is re-read
+  async function saveProvider(provider: AiProvider) {
+    providers.value = await window.ipc.invoke('ai-save-provider', provider)
+    keyStatus.value = await window.ipc.invoke('secret-status')
+  }
+
+  async function deleteProvider(providerId: string) {
+    providers.value = await window.ipc.invoke('ai-delete-provider', providerId)
+    keyStatus.value = await window.ipc.invoke('secret-status')
+    if (selectedProviderId.value === providerId) setProvider(DEFAULT_PROVIDER_ID)
+  }
+
+  // The models the provider's server reports, e.g. those pulled into a local Ollama
+  async function fetchProviderModels(providerId: string): Promise<string[]> {
+    return window.ipc.invoke('ai-list-models', providerId)
+  }
 
-  function setApiKey(key: string) {
-    openRouterKey.value = key
-    localStorage.setItem('openRouterKey', key)
+  // A failed load is remembered as "no published prices" until the app restarts
+  async function loadPricing(providerId: string) {
+    if (publishedPricing.value[providerId]) return
+    try {
+      publishedPricing.value[providerId] = await window.ipc.invoke('ai-model-pricing', providerId)
+    } catch (err) {
+      console.error('Failed to load model pricing:', err)
+      publishedPricing.value[providerId] = {}
+    }
+  }
+
+  // A hand-entered price wins over a published one; models on local servers are free. Null when unknown.
+  function pricingFor(providerId: string, model: string): ModelPricing | null {
+    const custom = customPricing.value[pricingKey(providerId, model)]
+    if (custom) return custom
+    const published = publishedPricing.value[providerId]?.[model]
+    if (published) return published
+    const provider = providers.value.find(p => p.id === providerId)
+    return provider?.kind === 'openai-compatible' ? FREE : null
+  }
+
+  // Null clears the hand-entered price
+  function setCustomPricing(providerId: string, model: string, pricing: ModelPricing | null) {
+    const key = pricingKey(providerId, model)
+    if (pricing) customPricing.value[key] = pricing
+    else delete customPricing.value[key]
+    localStorage.setItem('customPricing', JSON.stringify(customPricing.value))
+  }
+
+  // Null removes the entry, sending the prompt back to the selected model
+  function setModelRoute(key: PromptKey, route: ModelRoute | null) {
+    if (route) modelRoutes.value[key] = route
+    else delete modelRoutes.value[key]
+    localStorage.setItem('modelRoutes', JSON.stringify(modelRoutes.value))
+  }
+
+  /**
+   * The provider, model and sampling a call for `key` uses. A route to another provider
+   * without a model takes that provider's first model; one to a removed provider is ignored.
+   */
+  function resolveRoute(key?: PromptKey): ResolvedRoute {
+    const { providerId, model, ...params } = (key && modelRoutes.value[key]) || {}
+    if (providerId && providerId !== selectedProviderId.value) {
+      const provider = providers.value.find(p => p.id === providerId)
+      if (provider) return { providerId: provider.id, model: model || provider.models[0] || selectedModel.value, params }
+      return { providerId: selectedProviderId.value, model: selectedModel.value, params }
+    }
+    return { providerId: selectedProviderId.value, model: model || selectedModel.value, params }
+  }
+
+  // Switching providers picks its first model unless the current one is also on its list
+  function setProvider(providerId: string) {
+    selectedProviderId.value = providerId
+    localStorage.setItem('selectedProviderId', providerId)
+    const models = selectedProvider.value?.models || []
+    if (models.length && !models.includes(selectedModel.value)) setModel(models[0])
   }
 
   function setModel(model: string) {
@@ -21,12 +154,53 @@ export const useSettingsStore = defineStore('settings', () => {
     localStorage.setItem('defaultPrompt', prompt)
   }
 
+  function setTrashRetentionDays(days: number) {
+    trashRetentionDays.value = Math.max(1, Math.floor(days) || 30)
+    localStorage.setItem('trashRetentionDays', String(trashRetentionDays.value))
+  }
+
+  function setLogFullPrompts(enabled: boolean) {
+    logFullPrompts.value = enabled
+    localStorage.setItem('logFullPrompts', String(enabled))
+  }
+
+  // Older versions kept the OpenRouter key in localStorage; move it into encrypted storage once
+  const legacyKey = localStorage.getItem('openRouterKey')
+  if (legacyKey) {
+    setApiKey(DEFAULT_PROVIDER_ID, legacyKey)
+      .then(() => localStorage.removeItem('openRouterKey'))
+      .catch(err => console.error('Failed to move API key to secure storage:', err))
+      .finally(loadProviders)
+  } else {
+    loadProviders()
+  }
+
   return {
-    openRouterKey,
+    providers,
+    keyStatus,
+    selectedProviderId,
+    selectedProvider,
+    isProviderReady,
     selectedModel,
     defaultPrompt,
+    trashRetentionDays,
+    logFullPrompts,
+    customPricing,
+    modelRoutes,
+    loadProviders,
     setApiKey,
+    saveProvider,
+    deleteProvider,
+    fetchProviderModels,
+    loadPricing,
+    pricingFor,
+    setCustomPricing,
+    setModelRoute,
+    resolveRoute,
+    setProvider,
     setModel,
-    setPrompt
+    setPrompt,
+    setTrashRetentionDays,
+    setLogFullPrompts
   }
 })